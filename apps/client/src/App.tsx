@@ -2,6 +2,10 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import CanvasGame from "./game/CanvasGame";
 import LocalMultiplayer from "./game/LocalMultiplayer";
+import {
+  GAME_MODE_NAMES, HANDLING_NAMES, PIECE_SET_NAMES, PRESET_NAMES, puzzleFromFumen,
+  type GameModeName, type HandlingName, type PieceSetName, type PresetName, type Puzzle
+} from "@inner-mainframe/game-logic";
 
 import appleFontUrl from "./game/apple-ii.ttf?url";
 import startUrl from "./game/sfx/start.wav?url"; // ✅ bundle-safe URL to your sound
@@ -16,22 +20,59 @@ import {
 // 🔊 sound (for click/select etc.)
 import { SoundProvider, useSound } from "./game/sfx/SoundProvider";
 
-type Route = "menu" | "single" | "local";
+type Route = "menu" | "single" | "local" | "puzzle";
 
-// Simple menu model
-type MenuItem = { key: Route; label: string };
+// Simple menu model ("mode", "rules", "pieces" and "handling" cycle a setting instead of navigating)
+type MenuKey = Route | "mode" | "rules" | "pieces" | "handling";
+type MenuItem = { key: MenuKey; label: string };
 const MENU_ITEMS: MenuItem[] = [
   { key: "single", label: "Enter" },
   { key: "local",  label: "???" },
+  { key: "puzzle", label: "Puzzle" },
+  { key: "mode",   label: "Mode" },
+  { key: "rules",  label: "Rules" },
+  { key: "pieces", label: "Pieces" },
+  { key: "handling", label: "Handling" },
 ];
 
 // What we keep from the renderer to enable hit-testing
 type OptionRect = { x: number; y: number; w: number; h: number };
 
+// A fumen in the page URL (shared setup links) opens straight into puzzle mode
+function puzzleFromUrl(): Puzzle | null {
+  try {
+    return /[vmd]115@/.test(window.location.href) ? puzzleFromFumen(window.location.href) : null;
+  } catch (e) {
+    console.warn("Fumen in URL failed to load", e);
+    return null;
+  }
+}
+
 function AppInner() {
-  const [route, setRoute] = useState<Route>("menu");
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(puzzleFromUrl);
+  const [route, setRoute] = useState<Route>(() => (puzzle ? "puzzle" : "menu"));
   const { play } = useSound();
 
+  // Rule-set preset used by the next game (read by the menu renderer via ref)
+  const [preset, setPreset] = useState<PresetName>("guideline");
+  const presetRef = useRef(preset);
+  presetRef.current = preset;
+
+  // Single-player mode (sprint, ultra, ...) for the next solo game
+  const [mode, setMode] = useState<GameModeName>("marathon");
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+
+  // Piece set (tetromino, tromino, pentomino) for both solo and local games
+  const [pieceSet, setPieceSet] = useState<PieceSetName>("tetromino");
+  const pieceSetRef = useRef(pieceSet);
+  pieceSetRef.current = pieceSet;
+
+  // DAS / ARR / soft drop profile for solo games and puzzles
+  const [handling, setHandling] = useState<HandlingName>("preset");
+  const handlingRef = useRef(handling);
+  handlingRef.current = handling;
+
   // ---- First user gesture gate (to satisfy browser autoplay policy)
   const [gestureSatisfied, setGestureSatisfied] = useState(false);
   const ensureGesture = React.useCallback(() => {
@@ -133,15 +174,49 @@ function AppInner() {
   });
 
   // Helpers to change route from menu (plays "select")
-  const choose = (next: Route) => {
+  const choose = (next: MenuKey) => {
     if (next === "menu") return;
     play("select");
+    if (next === "rules") {
+      setPreset((p) => PRESET_NAMES[(PRESET_NAMES.indexOf(p) + 1) % PRESET_NAMES.length]);
+      return;
+    }
+    if (next === "mode") {
+      setMode((m) => GAME_MODE_NAMES[(GAME_MODE_NAMES.indexOf(m) + 1) % GAME_MODE_NAMES.length]);
+      return;
+    }
+    if (next === "pieces") {
+      setPieceSet((s) => PIECE_SET_NAMES[(PIECE_SET_NAMES.indexOf(s) + 1) % PIECE_SET_NAMES.length]);
+      return;
+    }
+    if (next === "handling") {
+      setHandling((h) => HANDLING_NAMES[(HANDLING_NAMES.indexOf(h) + 1) % HANDLING_NAMES.length]);
+      return;
+    }
+    if (next === "puzzle") {
+      const link = window.prompt("Paste a fumen link or v115@ code (goal in the comment, e.g. PC, TSD, 4 lines):");
+      if (!link) return;
+      try {
+        setPuzzle(puzzleFromFumen(link));
+      } catch (e) {
+        window.alert(`Couldn't load that fumen: ${(e as Error).message}`);
+        return;
+      }
+    }
     setRoute(next);
   };
 
+  const menuLabel = (item: MenuItem) =>
+    item.key === "rules" ? `${item.label}: ${presetRef.current.toUpperCase()}` :
+    item.key === "mode" ? `${item.label}: ${modeRef.current.toUpperCase()}` :
+    item.key === "pieces" ? `${item.label}: ${pieceSetRef.current.toUpperCase()}` :
+    item.key === "handling" ? `${item.label}: ${handlingRef.current.toUpperCase()}` :
+    item.label;
+
   // Build a renderer that draws the entire MENU plate (title + selectable options)
   function makeMenuRenderer(
     items: MenuItem[],
+    getLabel: (item: MenuItem) => string,
     getHoverIndex: () => number,
     setRects: (r: OptionRect[]) => void
   ) {
@@ -222,7 +297,7 @@ function AppInner() {
         const isHover = i === hover;
 
         // Box sizing
-        const label = item.label;
+        const label = getLabel(item);
         ctx.font = `${isHover ? "900" : "700"} ${baseSize}px ${APPLE_FONT}`;
         const textW = Math.ceil(ctx.measureText(label).width);
         const padX = Math.max(16, Math.round(baseSize * 0.9)) * DPR;
@@ -323,7 +398,7 @@ function AppInner() {
     // Renderer + layout bridge
     const getHoverIndex = () => shaderRefs.current.hoverIndex;
     const setRects = (r: OptionRect[]) => { shaderRefs.current.optionRects = r; };
-    const renderMenu = makeMenuRenderer(MENU_ITEMS, getHoverIndex, setRects);
+    const renderMenu = makeMenuRenderer(MENU_ITEMS, menuLabel, getHoverIndex, setRects);
     shaderRefs.current.render = renderMenu;
 
     // RAF
@@ -412,8 +487,9 @@ function AppInner() {
   // Render: only the game pages when selected.
   return (
     <>
-      {route === "single" && <CanvasGame />}
-      {route === "local" && <LocalMultiplayer />}
+      {route === "single" && <CanvasGame preset={preset} mode={mode} pieceSet={pieceSet} handling={handling} />}
+      {route === "local" && <LocalMultiplayer preset={preset} pieceSet={pieceSet} />}
+      {route === "puzzle" && puzzle && <CanvasGame preset={preset} handling={handling} puzzle={puzzle} />}
     </>
   );
 }
@@ -1,10 +1,13 @@
 // src/game/CanvasGame.tsx
-import React, { useEffect, useRef, type JSX } from "react";
+import React, { useEffect, useMemo, useRef, type JSX } from "react";
 import {
-  createGame, step, DEFAULT_PARAMS, type GameState, type Inputs
+  boardRules, createGame, handlingOf, judgePuzzle, puzzleParams, startPuzzle, step, FinesseTracker, GAME_MODES,
+  HANDLING_PROFILES, PIECE_SETS, PRESETS, ReplayRecorder, StatsTracker, type GameEvent, type GameModeName, type GameState,
+  type HandlingName, type Inputs, type PieceSetName, type PresetName, type Puzzle, type Replay
 } from "@inner-mainframe/game-logic";
 import { createOffscreenCanvas, drawWithShaders, setupWebglCanvas } from "@hackvegas-2025/shared";
 import { makeGameRenderer } from "./makeGameRenderer";
+import { downloadReplay, saveReplay } from "./replays";
 import { Color } from "@hackvegas-2025/shared";
 import appleFontUrl from "./apple-ii.ttf?url";
 
@@ -16,10 +19,32 @@ import bgmUrl from "./sfx/bgm.wav?url";
 // Spud
 import { gamepads, Button, HapticIntensity } from "@spud.gg/api";
 
-const BOARD_W = 10;
-const BOARD_H = 20;
+export default function CanvasGame({
+  preset = "guideline",
+  mode = "marathon",
+  pieceSet = "tetromino",
+  handling = "preset",
+  visibleW = 10,
+  visibleH = 20,
+  puzzle,
+}: {
+  preset?: PresetName;
+  mode?: GameModeName;
+  pieceSet?: PieceSetName;
+  handling?: HandlingName; // DAS / ARR / soft drop on top of the preset's
+  visibleW?: number; // board size; the hidden buffer above comes from the preset
+  visibleH?: number;
+  puzzle?: Puzzle;   // play this puzzle instead of `mode`; its board sets the width
+}): JSX.Element {
+  // Frame timing: the sim already steps at a fixed 60 Hz, and replays stay bit-identical
+  const params = useMemo(() => {
+    const base = {
+      ...PRESETS[preset], ...HANDLING_PROFILES[handling],
+      mode: GAME_MODES[mode], pieceSet: PIECE_SETS[pieceSet], timing: "frames" as const,
+    };
+    return puzzle ? puzzleParams(puzzle, base) : base;
+  }, [preset, mode, pieceSet, handling, puzzle]);
 
-export default function CanvasGame(): JSX.Element {
   const mountRef = useRef<HTMLDivElement | null>(null);
   const statsRef = useRef<HTMLDivElement | null>(null);
   const hudRef = useRef<HTMLDivElement | null>(null);
@@ -31,23 +56,36 @@ export default function CanvasGame(): JSX.Element {
   const tPrevRef = useRef(0);
   const accRef = useRef(0);
 
-  const gameRef = useRef<GameState>(createGame(BOARD_W, BOARD_H, 0xC0FFEE));
+  const gameRef = useRef<GameState>(null!); // created by the effect below
   const inputsRef = useRef<Inputs>({});
 
+  // 📼 Replay of the current game, the last one that finished, and whether it was a personal best
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const lastReplayRef = useRef<Replay | null>(null);
+  const newBestRef = useRef(false);
+
+  // 🎯 Finesse faults of the current game
+  const finesseRef = useRef(new FinesseTracker());
+
+  // 📊 PPS / APM / KPP and friends for the HUD, results and saved replays
+  const gameStatsRef = useRef(new StatsTracker());
+
   // per-frame latched one-shot flags (edge triggers)
   const edgeRef = useRef({
     rotCW: false,
     rotCCW: false,
+    rot180: false,
     hardDrop: false,
+    hold: false,
     restart: false,
     pause: false,
   });
 
-  // 🔊 SFX helpers & trackers
+  // rotate / hold keys still down, for IRS / IHS
+  const heldKeysRef = useRef({ heldCW: false, heldCCW: false, held180: false, heldHold: false });
+
+  // 🔊 SFX
   const { play } = useSound();
-  const prevLinesRef = useRef(0);
-  const prevFilledRef = useRef(0);
-  const endPlayedRef = useRef<boolean>(false);
 
   // 🔊 BGM
   const bgmRef = useRef<HTMLAudioElement | null>(null);
@@ -58,19 +96,11 @@ export default function CanvasGame(): JSX.Element {
   const offscreenRef = useRef<OffscreenCanvas | null>(null);
   const offctxRef = useRef<OffscreenCanvasRenderingContext2D | null>(null);
 
-  // Count filled cells in the entire board (hidden rows included is fine)
-  function countFilled(board: number[][]): number {
-    let n = 0;
-    for (let y = 0; y < board.length; y++) {
-      const row = board[y];
-      for (let x = 0; x < row.length; x++) {
-        if (row[x]) n++;
-      }
-    }
-    return n;
-  }
-
   useEffect(() => {
+    const newGame = (seed: number) =>
+      puzzle ? startPuzzle(puzzle, params, visibleH) : createGame(visibleW, visibleH, seed, params);
+    if (!gameRef.current) gameRef.current = newGame(0xC0FFEE);
+
     // Font
     try {
       const ff = new FontFace("Apple II", `url(${appleFontUrl})`, {
@@ -92,10 +122,6 @@ export default function CanvasGame(): JSX.Element {
       bgmRef.current = a;
     }
 
-    // Baselines for SFX heuristics
-    prevFilledRef.current = countFilled(gameRef.current.board);
-    prevLinesRef.current = gameRef.current.lines ?? 0;
-
     // Offscreen + WebGL
     const { offscreenCanvas, offscreenCtx } = createOffscreenCanvas();
     offscreenRef.current = offscreenCanvas;
@@ -116,7 +142,9 @@ export default function CanvasGame(): JSX.Element {
     });
     document.body.appendChild(canvas);
 
-    const renderGameToOffscreen = makeGameRenderer(gameRef, BOARD_W, BOARD_H, runningRef);
+    const renderGameToOffscreen = makeGameRenderer(
+      gameRef, runningRef, params, finesseRef.current, puzzle, gameStatsRef.current.stats, newBestRef
+    );
 
     function drawShaders() {
       const gl = glRef.current as any;
@@ -127,7 +155,27 @@ export default function CanvasGame(): JSX.Element {
     }
     rafShaderRef.current = requestAnimationFrame(drawShaders);
 
-    // Helpers
+    // Fixed-step loop (always runs so unpause is detectable)
+    const FIXED_DT = 1 / 60;
+
+    // Helpers (puzzles aren't recorded: a replay can't rebuild their board)
+    function startRecording() {
+      if (puzzle) return;
+      recorderRef.current = new ReplayRecorder({
+        seed: gameRef.current.seed,
+        boardW: visibleW,
+        boardH: visibleH,
+        rules: boardRules(params),
+        handling: handlingOf(params),
+        preset,
+        mode,
+        pieceSet,
+        timing: params.timing,
+        dtMs: FIXED_DT * 1000,
+      });
+    }
+    startRecording();
+
     function togglePause() {
       runningRef.current = !runningRef.current;
       // reset time origin so we don't jump when unpausing
@@ -137,17 +185,25 @@ export default function CanvasGame(): JSX.Element {
     }
 
     function restartGame() {
-      gameRef.current = createGame(BOARD_W, BOARD_H, (Math.random() * 0xffffff) | 0);
+      gameRef.current = newGame((Math.random() * 0xffffff) | 0);
+      startRecording();
+      newBestRef.current = false;
+      finesseRef.current.reset();
+      gameStatsRef.current.reset();
       lastHudRef.current = { lines: -1 };
-      // 🔊 SFX trackers
-      prevLinesRef.current = gameRef.current.lines ?? 0;
-      prevFilledRef.current = countFilled(gameRef.current.board);
-      endPlayedRef.current = false;
       // 🔊 BGM: keep playing (no reset) if running; loop logic below will handle pause/over
       if (hudRef.current) {
         hudRef.current.textContent = `Score: 0 • Level: ${gameRef.current.level}`;
       }
-      try { gamepads.singlePlayer.rumble(60, HapticIntensity.Balanced); } catch {}
+      rumble(60, HapticIntensity.Balanced);
+    }
+
+    function rumble(ms: number, intensity: HapticIntensity) {
+      try {
+        gamepads.singlePlayer.rumble(ms, intensity);
+      } catch {
+        // not every pad has haptics
+      }
     }
 
     // -------- Spud sampling (once per rAF) ----------
@@ -160,18 +216,32 @@ export default function CanvasGame(): JSX.Element {
       inputsRef.current.right = p.isButtonDown(Button.DpadRight) || snap.x > 0.5;
       inputsRef.current.softDrop = p.isButtonDown(Button.DpadDown) || snap.y > 0.5;
 
+      // Rotate / hold still down (pad or keyboard), for IRS / IHS
+      const keys = heldKeysRef.current;
+      inputsRef.current.heldCW = p.isButtonDown(Button.East) || keys.heldCW;
+      inputsRef.current.heldCCW = p.isButtonDown(Button.West) || keys.heldCCW;
+      inputsRef.current.held180 = p.isButtonDown(Button.RightShoulder) || keys.held180;
+      inputsRef.current.heldHold = p.isButtonDown(Button.DpadUp) || keys.heldHold;
+
       // Edge-trigger latching (only set true here; consumed once inside fixed-step)
       if (p.buttonJustPressed(Button.East)) { // B / ○
         edgeRef.current.rotCW = true;
-        try { p.rumble(40, HapticIntensity.Light); } catch {}
+        rumble(40, HapticIntensity.Light);
       }
       if (p.buttonJustPressed(Button.West)) { // X / □
         edgeRef.current.rotCCW = true;
-        try { p.rumble(40, HapticIntensity.Light); } catch {}
+        rumble(40, HapticIntensity.Light);
+      }
+      if (p.buttonJustPressed(Button.RightShoulder)) { // R1
+        edgeRef.current.rot180 = true;
+        rumble(40, HapticIntensity.Light);
       }
       if (p.buttonJustPressed(Button.South)) { // A / ✕
         edgeRef.current.hardDrop = true;
-        try { p.rumble(50, HapticIntensity.Heavy); } catch {}
+        rumble(50, HapticIntensity.Heavy);
+      }
+      if (p.buttonJustPressed(Button.DpadUp)) {
+        edgeRef.current.hold = true;
       }
       if (p.buttonJustPressed(Button.North)) { // Y / △
         edgeRef.current.restart = true;
@@ -192,12 +262,28 @@ export default function CanvasGame(): JSX.Element {
         if (e.key === "ArrowUp") edgeRef.current.rotCW = true;
         if (e.key === "q" || e.key === "Q") edgeRef.current.rotCCW = true;
         if (e.key === "e" || e.key === "E") edgeRef.current.rotCW = true;
+        if (e.key === "w" || e.key === "W") edgeRef.current.rot180 = true;
+        if (e.key === "c" || e.key === "C" || e.key === "Shift") edgeRef.current.hold = true;
         if (e.key === "r" || e.key === "R") {
           edgeRef.current.restart = true;
           return;
         }
+        if ((e.key === "v" || e.key === "V") && gameRef.current.gameOver && lastReplayRef.current) {
+          downloadReplay(lastReplayRef.current);
+          return;
+        }
       }
       switch (e.key) {
+        case "ArrowUp":
+        case "e":
+        case "E": heldKeysRef.current.heldCW = down; break;
+        case "q":
+        case "Q": heldKeysRef.current.heldCCW = down; break;
+        case "w":
+        case "W": heldKeysRef.current.held180 = down; break;
+        case "c":
+        case "C":
+        case "Shift": heldKeysRef.current.heldHold = down; break;
         case "ArrowLeft":
         case "a":
         case "A": inputsRef.current.left = down; break;
@@ -218,8 +304,16 @@ export default function CanvasGame(): JSX.Element {
     const isGameOver = (s: any): boolean =>
       Boolean(s?.gameOver || s?.over || s?.state === "gameover");
 
-    // Fixed-step loop (always runs so unpause is detectable)
-    const FIXED_DT = 1 / 60;
+    // 🔊 SFX straight from what the engine reports
+    function playEventSounds(events: GameEvent[]) {
+      for (const e of events) {
+        if (e.type === "lock") play("drop");
+        else if (e.type === "clear" && e.clear.lines > 0) play("clear");
+        else if (e.type === "topOut") play("end");
+        else if (e.type === "finish" && e.result.end !== "topOut") play("end");
+      }
+    }
+
     let frames = 0, last = performance.now();
 
     function runOneFixedStep(withEdges: boolean) {
@@ -227,43 +321,34 @@ export default function CanvasGame(): JSX.Element {
       if (withEdges) {
         inputsRef.current.rotCW = edgeRef.current.rotCW;
         inputsRef.current.rotCCW = edgeRef.current.rotCCW;
+        inputsRef.current.rot180 = edgeRef.current.rot180;
         inputsRef.current.hardDrop = edgeRef.current.hardDrop;
+        inputsRef.current.hold = edgeRef.current.hold;
         // respawn not used here; restart goes through restartGame
-        edgeRef.current.rotCW = edgeRef.current.rotCCW = edgeRef.current.hardDrop = false;
+        edgeRef.current.rotCW = edgeRef.current.rotCCW = edgeRef.current.rot180 = edgeRef.current.hardDrop = false;
+        edgeRef.current.hold = false;
       } else {
         inputsRef.current.rotCW = false;
         inputsRef.current.rotCCW = false;
+        inputsRef.current.rot180 = false;
         inputsRef.current.hardDrop = false;
+        inputsRef.current.hold = false;
       }
 
-      // advance sim
-      step(gameRef.current, inputsRef.current, FIXED_DT * 1000, DEFAULT_PARAMS);
-
-      // ----- 🔊 SOUND EVENTS -----
-      const s: any = gameRef.current;
-
-      // (1) Line clear → "clear"
-      if (typeof s.lines === "number" && s.lines > prevLinesRef.current) {
-        play("clear");
-      }
-      prevLinesRef.current = typeof s.lines === "number" ? s.lines : prevLinesRef.current;
-
-      // (2) Piece placed (lock & possibly clear) → board changed → "drop"
-      const filledNow = countFilled(s.board);
-      if (filledNow !== prevFilledRef.current && !isGameOver(s)) {
-        play("drop");
-      }
-      prevFilledRef.current = filledNow;
-
-      // (3) Game over → "end" (once)
-      if (isGameOver(s) && !endPlayedRef.current) {
-        endPlayedRef.current = true;
-        play("end");
-      }
-      if (!isGameOver(s)) {
-        endPlayedRef.current = false;
+      // advance sim (recording exactly what step() sees)
+      if (!gameRef.current.gameOver) recorderRef.current?.record(inputsRef.current);
+      const events = step(gameRef.current, inputsRef.current, FIXED_DT * 1000, params);
+      if (puzzle) judgePuzzle(gameRef.current, puzzle, events, params);
+      finesseRef.current.record(gameRef.current, inputsRef.current, events, params);
+      gameStatsRef.current.record(gameRef.current, inputsRef.current, events, params);
+      playEventSounds(events);
+      for (const e of events) {
+        if (e.type === "finish" && recorderRef.current) {
+          lastReplayRef.current = recorderRef.current.finish(gameRef.current, gameStatsRef.current.stats);
+          newBestRef.current = saveReplay(lastReplayRef.current);
+        }
       }
-      // ----- 🔊 end sound events -----
+      const s = gameRef.current;
 
       // HUD updates when lines change
       if (s.lines !== lastHudRef.current.lines) {
@@ -276,7 +361,9 @@ export default function CanvasGame(): JSX.Element {
       // clear one-shots (safety—already cleared above)
       inputsRef.current.rotCW = false;
       inputsRef.current.rotCCW = false;
+      inputsRef.current.rot180 = false;
       inputsRef.current.hardDrop = false;
+      inputsRef.current.hold = false;
       inputsRef.current.respawn = false;
 
       // 🔊 BGM control (once per fixed step is fine)
@@ -377,7 +464,7 @@ export default function CanvasGame(): JSX.Element {
 
       try { webglCanvasRef.current?.remove(); } catch {}
     };
-  }, [play]);
+  }, [play, params, preset, mode, pieceSet, visibleW, visibleH, puzzle]);
 
   return (
     <div style={{
@@ -417,8 +504,9 @@ export default function CanvasGame(): JSX.Element {
           }}>
             Controls:<br />
             D-Pad / Left-Stick: Move &amp; Soft Drop<br />
-            B(○)=Rotate CW • X(□)=Rotate CCW<br />
-            A(✕)=Hard Drop • Y(△)=Restart<br />
+            B(○)=Rotate CW • X(□)=Rotate CCW • R1 / W=Rotate 180<br />
+            A(✕)=Hard Drop • D-Pad Up / C=Hold<br />
+            Y(△)=Restart • V=Save replay (after a game)<br />
             Start/Select=Pause • Keyboard still works
           </div>
         </div>
@@ -1,11 +1,14 @@
 // src/game/LocalMultiplayer.tsx
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef } from "react";
 import {
-  createGame, step, DEFAULT_PARAMS,
-  type GameState, type Inputs, HIDDEN_ROWS, shapeCells
+  createGame, step, garbageReady, receiveGarbage, timerToMs, PIECE_SETS, PRESETS, VERSUS,
+  type GameEvent, type GameParams, type GameState, type Inputs, type PieceSetName, type PresetName,
+  ghostPiece, previewQueue, shapeCells, visibleHeight
 } from "@inner-mainframe/game-logic";
 import { createOffscreenCanvas, drawWithShaders, setupWebglCanvas, Color } from "@hackvegas-2025/shared";
 import appleFontUrl from "./apple-ii.ttf?url";
+import { cellColor, pieceColor } from "./palette";
+import { drawPieceColumn } from "./sidePanels";
 
 // 🔊 sound
 import { useSound } from "./sfx/SoundProvider";
@@ -14,11 +17,20 @@ import bgmUrl from "./sfx/bgm.wav?url";
 // Spud gamepad support
 import { gamepads, Button, HapticIntensity } from "@spud.gg/api";
 
-const BOARD_W = 10;
-const BOARD_H = 20;
 const FIXED_DT = 1 / 60;
 
-export default function LocalMultiplayer(): JSX.Element {
+export default function LocalMultiplayer({
+  preset = "guideline",
+  pieceSet = "tetromino",
+  visibleW = 10,
+  visibleH = 20,
+}: { preset?: PresetName; pieceSet?: PieceSetName; visibleW?: number; visibleH?: number }): JSX.Element {
+  // Versus ignores the single-player line goals and clocks; frame timing like solo play
+  const params = useMemo(
+    () => ({ ...PRESETS[preset], mode: VERSUS, pieceSet: PIECE_SETS[pieceSet], timing: "frames" as const }),
+    [preset, pieceSet]
+  );
+
   // runtime flags
   const runningRef = useRef(true);
   const matchOverRef = useRef(false);
@@ -28,33 +40,27 @@ export default function LocalMultiplayer(): JSX.Element {
   const accRef = useRef(0);
 
   // game states & inputs
-  const p1Ref = useRef<GameState>(createGame(BOARD_W, BOARD_H, 0x0a11ce));
-  const p2Ref = useRef<GameState>(createGame(BOARD_W, BOARD_H, 0x0b0b00));
+  const p1Ref = useRef<GameState>(null!); // both created by the effect below
+  const p2Ref = useRef<GameState>(null!);
   const p1InRef = useRef<Inputs>({});
   const p2InRef = useRef<Inputs>({});
 
   // 🔊 SFX
   const { play } = useSound();
-  const p1PrevLinesRef = useRef(0);
-  const p2PrevLinesRef = useRef(0);
-  const p1PrevFilledRef = useRef(0);
-  const p2PrevFilledRef = useRef(0);
-  const p1EndPlayedRef = useRef(false);
-  const p2EndPlayedRef = useRef(false);
 
   // 🔊 BGM
   const bgmRef = useRef<HTMLAudioElement | null>(null);
 
   // keyboard-held state lives SEPARATELY from the per-frame input objects
   const kbHeldRef = useRef({
-    p1: { left: false, right: false, softDrop: false },
-    p2: { left: false, right: false, softDrop: false },
+    p1: { left: false, right: false, softDrop: false, heldCW: false, heldCCW: false, held180: false, heldHold: false },
+    p2: { left: false, right: false, softDrop: false, heldCW: false, heldCCW: false, held180: false, heldHold: false },
   });
 
   // per-frame latched edges (consumed once on the first fixed step each frame)
   const edgesRef = useRef({
-    p1: { rotCW: false, rotCCW: false, hardDrop: false },
-    p2: { rotCW: false, rotCCW: false, hardDrop: false },
+    p1: { rotCW: false, rotCCW: false, rot180: false, hardDrop: false, hold: false },
+    p2: { rotCW: false, rotCCW: false, rot180: false, hardDrop: false, hold: false },
     pause: false,
     restart: false,
   });
@@ -77,31 +83,16 @@ export default function LocalMultiplayer(): JSX.Element {
   const offscreenRef = useRef<OffscreenCanvas | null>(null);
   const offctxRef = useRef<OffscreenCanvasRenderingContext2D | null>(null);
 
-  // helpers
-  const countFilled = (board: number[][]) => {
-    let n = 0;
-    for (let y = 0; y < board.length; y++) {
-      const row = board[y];
-      for (let x = 0; x < row.length; x++) if (row[x]) n++;
-    }
-    return n;
-  };
-  const isOver = (s: GameState) => !!(s.gameOver as any);
-
   useEffect(() => {
+    if (!p1Ref.current) p1Ref.current = createGame(visibleW, visibleH, 0x0a11ce, params);
+    if (!p2Ref.current) p2Ref.current = createGame(visibleW, visibleH, 0x0b0b00, params);
+
     // Font
     try {
       const ff = new FontFace("Apple II", `url(${appleFontUrl})`, { style: "normal", weight: "400", display: "swap" });
       ff.load().then((f) => (document as any).fonts.add(f));
     } catch {}
 
-    // 🔊 init SFX trackers
-    p1PrevLinesRef.current = p1Ref.current.lines ?? 0;
-    p2PrevLinesRef.current = p2Ref.current.lines ?? 0;
-    p1PrevFilledRef.current = countFilled(p1Ref.current.board);
-    p2PrevFilledRef.current = countFilled(p2Ref.current.board);
-    p1EndPlayedRef.current = p2EndPlayedRef.current = false;
-
     // 🔊 BGM create element (play/pause controlled in loop)
     {
       const a = new Audio(bgmUrl);
@@ -130,7 +121,7 @@ export default function LocalMultiplayer(): JSX.Element {
     });
     document.body.appendChild(canvas);
 
-    const renderDual = makeDualRenderer(p1Ref, p2Ref, BOARD_W, BOARD_H, runningRef, matchOverRef);
+    const renderDual = makeDualRenderer(p1Ref, p2Ref, runningRef, matchOverRef, params);
 
     // --- Single shader loop ---
     function drawShaders() {
@@ -153,20 +144,13 @@ export default function LocalMultiplayer(): JSX.Element {
     }
 
     function restartMatch() {
-      p1Ref.current = createGame(BOARD_W, BOARD_H, (Math.random() * 0xffffff) | 0);
-      p2Ref.current = createGame(BOARD_W, BOARD_H, (Math.random() * 0xffffff) | 0);
+      p1Ref.current = createGame(visibleW, visibleH, (Math.random() * 0xffffff) | 0, params);
+      p2Ref.current = createGame(visibleW, visibleH, (Math.random() * 0xffffff) | 0, params);
       matchOverRef.current = false;
       runningRef.current = true;
       tPrevRef.current = performance.now();
       accRef.current = 0;
 
-      // 🔊 reset trackers
-      p1PrevLinesRef.current = p1Ref.current.lines ?? 0;
-      p2PrevLinesRef.current = p2Ref.current.lines ?? 0;
-      p1PrevFilledRef.current = countFilled(p1Ref.current.board);
-      p2PrevFilledRef.current = countFilled(p2Ref.current.board);
-      p1EndPlayedRef.current = p2EndPlayedRef.current = false;
-
       try { padByIndex(seatRef.current.p1).rumble(60, HapticIntensity.Balanced); } catch {}
       try { padByIndex(seatRef.current.p2).rumble(60, HapticIntensity.Balanced); } catch {}
     }
@@ -178,24 +162,43 @@ export default function LocalMultiplayer(): JSX.Element {
       }
     }
 
+    // 🔊 SFX straight from what the engine reports
+    function playEventSounds(events: GameEvent[]) {
+      for (const e of events) {
+        if (e.type === "lock") play("drop");
+        else if (e.type === "clear" && e.clear.lines > 0) play("clear");
+        else if (e.type === "topOut") play("end");
+      }
+    }
+
+    // ⚔️ Lines a board sends after cancelling land in the opponent's garbage queue
+    function sendAttacks(events: GameEvent[], target: GameState) {
+      for (const e of events) {
+        if (e.type === "attack") receiveGarbage(target, e.lines);
+      }
+    }
+
     // tick one state once (with optional first-step edges)
     function tickOne(
       gs: GameState,
       ins: Inputs,
-      firstStepEdges?: { rotCW: boolean; rotCCW: boolean; hardDrop: boolean }
+      firstStepEdges?: { rotCW: boolean; rotCCW: boolean; rot180: boolean; hardDrop: boolean; hold: boolean }
     ) {
       if (firstStepEdges) {
         ins.rotCW = firstStepEdges.rotCW;
         ins.rotCCW = firstStepEdges.rotCCW;
+        ins.rot180 = firstStepEdges.rot180;
         ins.hardDrop = firstStepEdges.hardDrop;
+        ins.hold = firstStepEdges.hold;
       } else {
-        ins.rotCW = ins.rotCCW = ins.hardDrop = false;
+        ins.rotCW = ins.rotCCW = ins.rot180 = ins.hardDrop = ins.hold = false;
       }
 
-      step(gs, ins, FIXED_DT * 1000, DEFAULT_PARAMS);
+      const events = step(gs, ins, FIXED_DT * 1000, params);
 
       // one-shot buttons reset each fixed tick (safety)
-      ins.rotCW = ins.rotCCW = ins.hardDrop = ins.respawn = false;
+      ins.rotCW = ins.rotCCW = ins.rot180 = ins.hardDrop = ins.hold = ins.respawn = false;
+      return events;
     }
 
     // -------- SAMPLE GAMEPADS ONCE PER FRAME --------------------
@@ -204,21 +207,30 @@ export default function LocalMultiplayer(): JSX.Element {
       const p2Pad = padByIndex(seatRef.current.p2);
 
       const gpToHeldAndEdges = (p: typeof gamepads.p1) => {
-        const held = { left: false, right: false, softDrop: false };
-        const edges = { rotCW: false, rotCCW: false, hardDrop: false };
+        const held = {
+          left: false, right: false, softDrop: false, heldCW: false, heldCCW: false, held180: false, heldHold: false,
+        };
+        const edges = { rotCW: false, rotCCW: false, rot180: false, hardDrop: false, hold: false };
 
         if (p.gamepad) {
           const { x: sx, y: sy } = p.leftStick.snap4;
           held.left     = p.isButtonDown(Button.DpadLeft)  || sx < -0.5;
           held.right    = p.isButtonDown(Button.DpadRight) || sx > 0.5;
           held.softDrop = p.isButtonDown(Button.DpadDown)  || sy > 0.5;
+          // rotate / hold still down, for IRS / IHS
+          held.heldCW   = p.isButtonDown(Button.East);
+          held.heldCCW  = p.isButtonDown(Button.West);
+          held.held180  = p.isButtonDown(Button.RightShoulder);
+          held.heldHold = p.isButtonDown(Button.DpadUp);
 
           if (p.buttonJustPressed(Button.West))  edges.rotCCW = true; // X / □
           if (p.buttonJustPressed(Button.East))  edges.rotCW  = true; // B / ○
+          if (p.buttonJustPressed(Button.RightShoulder)) edges.rot180 = true; // R1
           if (p.buttonJustPressed(Button.South)) {                    // A / ✕
             edges.hardDrop = true;
             try { p.rumble(40, HapticIntensity.Balanced); } catch {}
           }
+          if (p.buttonJustPressed(Button.DpadUp)) edges.hold = true;
         }
         return { held, edges };
       };
@@ -230,19 +242,31 @@ export default function LocalMultiplayer(): JSX.Element {
       p1InRef.current.left     = !!(gp1.held.left     || kbHeldRef.current.p1.left);
       p1InRef.current.right    = !!(gp1.held.right    || kbHeldRef.current.p1.right);
       p1InRef.current.softDrop = !!(gp1.held.softDrop || kbHeldRef.current.p1.softDrop);
+      p1InRef.current.heldCW   = !!(gp1.held.heldCW   || kbHeldRef.current.p1.heldCW);
+      p1InRef.current.heldCCW  = !!(gp1.held.heldCCW  || kbHeldRef.current.p1.heldCCW);
+      p1InRef.current.held180  = !!(gp1.held.held180  || kbHeldRef.current.p1.held180);
+      p1InRef.current.heldHold = !!(gp1.held.heldHold || kbHeldRef.current.p1.heldHold);
 
       p2InRef.current.left     = !!(gp2.held.left     || kbHeldRef.current.p2.left);
       p2InRef.current.right    = !!(gp2.held.right    || kbHeldRef.current.p2.right);
       p2InRef.current.softDrop = !!(gp2.held.softDrop || kbHeldRef.current.p2.softDrop);
+      p2InRef.current.heldCW   = !!(gp2.held.heldCW   || kbHeldRef.current.p2.heldCW);
+      p2InRef.current.heldCCW  = !!(gp2.held.heldCCW  || kbHeldRef.current.p2.heldCCW);
+      p2InRef.current.held180  = !!(gp2.held.held180  || kbHeldRef.current.p2.held180);
+      p2InRef.current.heldHold = !!(gp2.held.heldHold || kbHeldRef.current.p2.heldHold);
 
       // One-shots: latch per frame
       if (gp1.edges.rotCW)    edgesRef.current.p1.rotCW = true;
       if (gp1.edges.rotCCW)   edgesRef.current.p1.rotCCW = true;
+      if (gp1.edges.rot180)   edgesRef.current.p1.rot180 = true;
       if (gp1.edges.hardDrop) edgesRef.current.p1.hardDrop = true;
+      if (gp1.edges.hold)     edgesRef.current.p1.hold = true;
 
       if (gp2.edges.rotCW)    edgesRef.current.p2.rotCW = true;
       if (gp2.edges.rotCCW)   edgesRef.current.p2.rotCCW = true;
+      if (gp2.edges.rot180)   edgesRef.current.p2.rot180 = true;
       if (gp2.edges.hardDrop) edgesRef.current.p2.hardDrop = true;
+      if (gp2.edges.hold)     edgesRef.current.p2.hold = true;
 
       // Pause / Restart from either bound controller
       const p1Pause = p1Pad.buttonJustPressed(Button.Start) || p1Pad.buttonJustPressed(Button.Select);
@@ -263,9 +287,9 @@ export default function LocalMultiplayer(): JSX.Element {
       const k = e.key;
       const handled = new Set([
         "ArrowLeft","ArrowRight","ArrowDown","ArrowUp"," ",
-        "a","A","d","D","s","S","q","Q","e","E","x","X",
+        "a","A","d","D","s","S","w","W","q","Q","e","E","x","X","c","C",
         "p","P","r","R",
-        ",",".","<",">",
+        ",",".","<",">","/","?",
       ]);
       if (handled.has(k)) e.preventDefault();
 
@@ -279,10 +303,14 @@ export default function LocalMultiplayer(): JSX.Element {
         if (k === "x" || k === "X") edgesRef.current.p1.hardDrop = true;
         if (k === "q" || k === "Q") edgesRef.current.p1.rotCCW = true;
         if (k === "e" || k === "E") edgesRef.current.p1.rotCW  = true;
+        if (k === "w" || k === "W") edgesRef.current.p1.rot180 = true;
+        if (k === "c" || k === "C") edgesRef.current.p1.hold   = true;
 
         if (k === " ") edgesRef.current.p2.hardDrop = true;
         if (k === "," || k === "<") edgesRef.current.p2.rotCCW = true;
         if (k === "." || k === ">") edgesRef.current.p2.rotCW  = true;
+        if (k === "ArrowUp")        edgesRef.current.p2.rot180 = true;
+        if (k === "/" || k === "?") edgesRef.current.p2.hold   = true;
       }
 
       // Helds → update the separate kbHeldRef
@@ -291,10 +319,18 @@ export default function LocalMultiplayer(): JSX.Element {
         case "a": case "A": kbHeldRef.current.p1.left = down; break;
         case "d": case "D": kbHeldRef.current.p1.right = down; break;
         case "s": case "S": kbHeldRef.current.p1.softDrop = down; break;
+        case "e": case "E": kbHeldRef.current.p1.heldCW = down; break;
+        case "q": case "Q": kbHeldRef.current.p1.heldCCW = down; break;
+        case "w": case "W": kbHeldRef.current.p1.held180 = down; break;
+        case "c": case "C": kbHeldRef.current.p1.heldHold = down; break;
         // P2 arrows
         case "ArrowLeft":  kbHeldRef.current.p2.left = down; break;
         case "ArrowRight": kbHeldRef.current.p2.right = down; break;
         case "ArrowDown":  kbHeldRef.current.p2.softDrop = down; break;
+        case ".": case ">": kbHeldRef.current.p2.heldCW = down; break;
+        case ",": case "<": kbHeldRef.current.p2.heldCCW = down; break;
+        case "ArrowUp":    kbHeldRef.current.p2.held180 = down; break;
+        case "/": case "?": kbHeldRef.current.p2.heldHold = down; break;
       }
     }
 
@@ -304,8 +340,10 @@ export default function LocalMultiplayer(): JSX.Element {
     window.addEventListener("keyup", ku, { passive: false });
 
     function onBlur() {
-      kbHeldRef.current.p1.left = kbHeldRef.current.p1.right = kbHeldRef.current.p1.softDrop = false;
-      kbHeldRef.current.p2.left = kbHeldRef.current.p2.right = kbHeldRef.current.p2.softDrop = false;
+      for (const held of [kbHeldRef.current.p1, kbHeldRef.current.p2]) {
+        held.left = held.right = held.softDrop = false;
+        held.heldCW = held.heldCCW = held.held180 = held.heldHold = false;
+      }
     }
     window.addEventListener("blur", onBlur);
 
@@ -327,39 +365,23 @@ export default function LocalMultiplayer(): JSX.Element {
         accRef.current += dt;
         let first = true;
         while (accRef.current >= FIXED_DT) {
-          tickOne(p1Ref.current, p1InRef.current, first ? edgesRef.current.p1 : undefined);
-          tickOne(p2Ref.current, p2InRef.current, first ? edgesRef.current.p2 : undefined);
+          const ev1 = tickOne(p1Ref.current, p1InRef.current, first ? edgesRef.current.p1 : undefined);
+          const ev2 = tickOne(p2Ref.current, p2InRef.current, first ? edgesRef.current.p2 : undefined);
+          sendAttacks(ev1, p2Ref.current);
+          sendAttacks(ev2, p1Ref.current);
+          playEventSounds(ev1);
+          playEventSounds(ev2);
           first = false;
           accRef.current -= FIXED_DT;
         }
         // clear latched one-shots after first fixed step consumed them
-        edgesRef.current.p1.rotCW = edgesRef.current.p1.rotCCW = edgesRef.current.p1.hardDrop = false;
-        edgesRef.current.p2.rotCW = edgesRef.current.p2.rotCCW = edgesRef.current.p2.hardDrop = false;
+        for (const edges of [edgesRef.current.p1, edgesRef.current.p2]) {
+          edges.rotCW = edges.rotCCW = edges.rot180 = edges.hardDrop = edges.hold = false;
+        }
 
-        // ---- 🔊 SOUND EVENTS (per player) ----
         const p1 = p1Ref.current;
         const p2 = p2Ref.current;
 
-        // Line clear → "clear"
-        if (p1.lines > p1PrevLinesRef.current) play("clear");
-        if (p2.lines > p2PrevLinesRef.current) play("clear");
-        p1PrevLinesRef.current = p1.lines;
-        p2PrevLinesRef.current = p2.lines;
-
-        // Piece placed (board changed) → "drop"
-        const p1Filled = countFilled(p1.board);
-        const p2Filled = countFilled(p2.board);
-        if (!isOver(p1) && p1Filled !== p1PrevFilledRef.current) play("drop");
-        if (!isOver(p2) && p2Filled !== p2PrevFilledRef.current) play("drop");
-        p1PrevFilledRef.current = p1Filled;
-        p2PrevFilledRef.current = p2Filled;
-
-        // Game over → "end" (once per player)
-        if (isOver(p1) && !p1EndPlayedRef.current) { p1EndPlayedRef.current = true; play("end"); }
-        if (isOver(p2) && !p2EndPlayedRef.current) { p2EndPlayedRef.current = true; play("end"); }
-        if (!isOver(p1)) p1EndPlayedRef.current = false;
-        if (!isOver(p2)) p2EndPlayedRef.current = false;
-
         // Determine match over
         if (!matchOverRef.current && (p1.gameOver || p2.gameOver)) {
           matchOverRef.current = true;
@@ -414,7 +436,7 @@ export default function LocalMultiplayer(): JSX.Element {
 
       try { webglCanvasRef.current?.remove(); } catch {}
     };
-  }, [play]);
+  }, [play, params, visibleW, visibleH]);
 
   return <></>;
 }
@@ -424,10 +446,9 @@ export default function LocalMultiplayer(): JSX.Element {
 function makeDualRenderer(
   p1Ref: React.MutableRefObject<GameState>,
   p2Ref: React.MutableRefObject<GameState>,
-  BOARD_W: number,
-  BOARD_H: number,
   runningRef: { current: boolean },
-  matchOverRef: { current: boolean }
+  matchOverRef: { current: boolean },
+  params: GameParams
 ) {
   const APPLE_FONT = "Apple II, ui-sans-serif, system-ui";
 
@@ -454,7 +475,7 @@ function makeDualRenderer(
     const MARGIN = 24;
     const GAP = 28;
     const HUD_ROOM = 60;
-    const aspect = BOARD_H / BOARD_W;
+    const aspect = visibleHeight(p1Ref.current) / p1Ref.current.boardW;
 
     const availW = cssW - MARGIN * 2 - GAP;
     const colW = Math.floor(availW / 2);
@@ -473,8 +494,8 @@ function makeDualRenderer(
     const pxX2 = Math.floor(rightCssX * DPR);
     const pxY  = Math.floor(cssY * DPR);
 
-    drawBoard(ctx, p1Ref.current, pxX1, pxY, pxW, pxH, APPLE_FONT, DPR, BOARD_W, BOARD_H, matchOverRef.current);
-    drawBoard(ctx, p2Ref.current, pxX2, pxY, pxW, pxH, APPLE_FONT, DPR, BOARD_W, BOARD_H, matchOverRef.current);
+    drawBoard(ctx, p1Ref.current, pxX1, pxY, pxW, pxH, APPLE_FONT, DPR, matchOverRef.current, params);
+    drawBoard(ctx, p2Ref.current, pxX2, pxY, pxW, pxH, APPLE_FONT, DPR, matchOverRef.current, params);
 
     // global overlays
     if (!runningRef.current && !matchOverRef.current) {
@@ -532,34 +553,52 @@ function drawBoard(
   pxX: number, pxY: number, pxW: number, pxH: number,
   APPLE_FONT: string,
   DPR: number,
-  BOARD_W: number,
-  BOARD_H: number,
-  matchOver: boolean
+  matchOver: boolean,
+  params: GameParams
 ) {
+  const hidden = s.hiddenRows;
+
   ctx.fillStyle = "#0e1626";
   ctx.fillRect(pxX, pxY, pxW, pxH);
 
-  const cell = pxW / BOARD_W;
-  function drawCell(gx: number, gy: number) {
+  const cell = pxW / s.boardW;
+  function drawCell(gx: number, gy: number, color: string) {
     const x = pxX + Math.floor(gx * cell);
     const y = pxY + Math.floor(gy * cell);
-    ctx.fillStyle = "#00ff7f";
+    ctx.fillStyle = color;
     ctx.fillRect(x, y, Math.ceil(cell), Math.ceil(cell));
     ctx.strokeStyle = "rgba(0,0,0,0.35)";
     ctx.lineWidth = Math.max(1, Math.floor(DPR));
     ctx.strokeRect(x + 0.5, y + 0.5, Math.ceil(cell) - 1, Math.ceil(cell) - 1);
   }
 
-  for (let y = HIDDEN_ROWS; y < s.boardH; y++) {
+  for (let y = hidden; y < s.boardH; y++) {
     for (let x = 0; x < s.boardW; x++) {
-      if (s.board[y][x]) drawCell(x, y - HIDDEN_ROWS);
+      if (s.board[y][x]) drawCell(x, y - hidden, cellColor(s.board[y][x]));
+    }
+  }
+  // Rows waiting out the line-clear delay blink before they collapse
+  if (s.clearingRows && Math.floor(timerToMs(params, s.phaseTimerMs) / 80) % 2 === 0) {
+    ctx.fillStyle = "rgba(230,255,240,0.85)";
+    for (const y of s.clearingRows) {
+      if (y >= hidden) ctx.fillRect(pxX, pxY + Math.floor((y - hidden) * cell), pxW, Math.ceil(cell));
+    }
+  }
+  const ghost = ghostPiece(s);
+  if (ghost) {
+    ctx.globalAlpha = 0.25;
+    for (const [cx, cy] of shapeCells(ghost.type, ghost.rot)) {
+      const gx = ghost.x + cx;
+      const gy = ghost.y + cy;
+      if (gy >= hidden && gy < s.boardH) drawCell(gx, gy - hidden, pieceColor(ghost.type));
     }
+    ctx.globalAlpha = 1;
   }
   if (s.active) {
     for (const [cx, cy] of shapeCells(s.active.type, s.active.rot)) {
       const gx = s.active.x + cx;
       const gy = s.active.y + cy;
-      if (gy >= HIDDEN_ROWS && gy < s.boardH) drawCell(gx, gy - HIDDEN_ROWS);
+      if (gy >= hidden && gy < s.boardH) drawCell(gx, gy - hidden, pieceColor(s.active.type));
     }
   }
 
@@ -567,6 +606,26 @@ function drawBoard(
   ctx.lineWidth = Math.max(2, Math.round(2 * DPR));
   ctx.strokeRect(pxX + 0.5, pxY + 0.5, pxW - 1, pxH - 1);
 
+  // Hold (left) and next queue (right), sized to fit the gap between boards
+  const mini = cell * 0.55;
+  const panelW = Math.round(mini * 5);
+  const panelGap = Math.round(cell * 0.4);
+  if (params.holdMode !== "disabled") {
+    drawPieceColumn(ctx, "HOLD", [s.hold], pxX - panelGap - panelW, pxY, panelW, mini, DPR, APPLE_FONT, !s.canHold);
+  }
+  drawPieceColumn(ctx, "NEXT", previewQueue(s, params), pxX + pxW + panelGap, pxY, panelW, mini, DPR, APPLE_FONT);
+
+  // Incoming garbage meter along the left edge: red once it can rise, orange while delayed
+  const meterW = Math.max(3, Math.round(panelGap * 0.5));
+  let meterY = pxY + pxH;
+  for (const batch of s.garbage) {
+    const h = Math.min(batch.lines * cell, meterY - pxY);
+    if (h <= 0) break;
+    meterY -= h;
+    ctx.fillStyle = garbageReady(batch, params) ? "#ff3b3b" : "#ffa53b";
+    ctx.fillRect(pxX - meterW - Math.ceil(DPR), meterY, meterW, h - Math.ceil(DPR));
+  }
+
   // Simplified HUD: Score + Level (no Lines)
   const minDim = Math.min(ctx.canvas.width, ctx.canvas.height);
   const hudTitlePx = Math.max(14, Math.round(minDim * 0.018));
@@ -581,7 +640,11 @@ function drawBoard(
   ctx.shadowColor = "rgba(0,255,127,0.25)";
   ctx.shadowBlur = Math.ceil(2 * DPR);
 
-  const hudText = `Score: ${s.score.toLocaleString()} • Level: ${s.level}`;
+  const streak = [
+    s.combo > 0 ? `Combo ${s.combo}` : "",
+    s.b2b > 0 ? `B2B x${s.b2b}` : "",
+  ].filter(Boolean).join(" • ");
+  const hudText = `Score: ${s.score.toLocaleString()} • Level: ${s.level}` + (streak ? ` • ${streak}` : "");
   ctx.fillText(hudText, hudX, hudY);
 
   ctx.shadowBlur = 0;
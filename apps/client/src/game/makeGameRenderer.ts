@@ -1,18 +1,47 @@
-import { HIDDEN_ROWS, shapeCells, type GameState } from "@inner-mainframe/game-logic";
+import {
+  clearLabel, gameTimeMs, visibleHeight, ghostPiece, previewQueue, puzzleGoalLabel, shapeCells, statRates, timeLeftMs,
+  timerToMs, type ClearInfo, type FinesseTracker, type GameParams, type GameResult, type GameState, type GameStats,
+  type Puzzle
+} from "@inner-mainframe/game-logic";
+import { cellColor, pieceColor } from "./palette";
+import { drawPieceColumn } from "./sidePanels";
+
+// m:ss.cc
+export function formatTime(ms: number) {
+  const cs = Math.floor(ms / 10);
+  const m = Math.floor(cs / 6000);
+  const sec = Math.floor(cs / 100) % 60;
+  return `${m}:${String(sec).padStart(2, "0")}.${String(cs % 100).padStart(2, "0")}`;
+}
+
+// PPS / APM / KPP summary line
+function ratesText(stats: GameStats) {
+  const { pps, apm, kpp } = statRates(stats);
+  return `PPS ${pps.toFixed(2)} • APM ${apm.toFixed(1)} • KPP ${kpp.toFixed(2)}`;
+}
+
+const RESULT_TITLES: Record<GameResult["end"], string> = {
+  goal: "COMPLETE",
+  time: "TIME UP",
+  topOut: "GAME OVER",
+  outOfPieces: "OUT OF PIECES",
+};
 
 export function makeGameRenderer(
   gameRef: React.MutableRefObject<GameState>,
-  BOARD_W: number,
-  BOARD_H: number,
-  runningRef: {  current: boolean }
+  runningRef: {  current: boolean },
+  params: GameParams,
+  finesse?: FinesseTracker,
+  puzzle?: Puzzle,
+  stats?: GameStats,
+  newBest?: { current: boolean } // the finished game beat the saved personal best
 ) {
   const APPLE_FONT = "Apple II, ui-sans-serif, system-ui";
 
-  // --- HUD state: always drawn, values only update on line-clear ---
-  let lastLines = -1;
-  let displayScore = 0;
-  let displayLevel = 0;
-  
+  // --- Clear label (TETRIS, T-SPIN DOUBLE, ...) flashed after each lock ---
+  let seenClear: ClearInfo | null = null;
+  let clearText = "";
+  let clearUntil = 0;
 
   return function renderGameToOffscreen(
     offscreen: OffscreenCanvas,
@@ -32,12 +61,18 @@ export function makeGameRenderer(
     ctx.fillStyle = "#0a0f1a";
     ctx.fillRect(0, 0, offscreen.width, offscreen.height);
 
+    // Board geometry comes from the game itself
+    const s = gameRef.current;
+    const boardW = s.boardW;
+    const boardH = visibleHeight(s);
+    const hidden = s.hiddenRows;
+
     // Centered board rectangle (same sizing as before)
     const MARGIN = 24;
     const SCALE = 0.85;
     const vw = offscreen.width / DPR;
     const vh = offscreen.height / DPR;
-    const aspect = BOARD_H / BOARD_W;
+    const aspect = boardH / boardW;
 
     const maxByW = Math.max(0, vw - MARGIN * 2);
     const maxByH = Math.max(0, (vh - MARGIN * 2) / aspect);
@@ -54,23 +89,42 @@ export function makeGameRenderer(
     ctx.fillRect(pxX, pxY, pxW, pxH);
 
     // Draw board
-    const s = gameRef.current;
-    const cell = pxW / BOARD_W;
+    const cell = pxW / boardW;
 
-    function drawCell(gx: number, gy: number) {
+    function drawCell(gx: number, gy: number, color: string) {
       const x = pxX + Math.floor(gx * cell);
       const y = pxY + Math.floor(gy * cell);
-      ctx.fillStyle = "#00ff7f";
+      ctx.fillStyle = color;
       ctx.strokeStyle = "rgba(0,0,0,0.35)";
       ctx.lineWidth = Math.max(1, Math.floor(DPR));
       ctx.fillRect(x, y, Math.ceil(cell), Math.ceil(cell));
       ctx.strokeRect(x + 0.5, y + 0.5, Math.ceil(cell) - 1, Math.ceil(cell) - 1);
     }
 
-    for (let y = HIDDEN_ROWS; y < s.boardH; y++) {
+    for (let y = hidden; y < s.boardH; y++) {
       for (let x = 0; x < s.boardW; x++) {
-        if (s.board[y][x]) drawCell(x, y - HIDDEN_ROWS);
+        if (s.board[y][x]) drawCell(x, y - hidden, cellColor(s.board[y][x]));
+      }
+    }
+
+    // Rows waiting out the line-clear delay blink before they collapse
+    if (s.clearingRows && Math.floor(timerToMs(params, s.phaseTimerMs) / 80) % 2 === 0) {
+      ctx.fillStyle = "rgba(230,255,240,0.85)";
+      for (const y of s.clearingRows) {
+        if (y >= hidden) ctx.fillRect(pxX, pxY + Math.floor((y - hidden) * cell), pxW, Math.ceil(cell));
+      }
+    }
+
+    // Ghost: where a hard drop would put the piece
+    const ghost = ghostPiece(s);
+    if (ghost) {
+      ctx.globalAlpha = 0.25;
+      for (const [cx, cy] of shapeCells(ghost.type, ghost.rot)) {
+        const gx = ghost.x + cx;
+        const gy = ghost.y + cy;
+        if (gy >= hidden && gy < s.boardH) drawCell(gx, gy - hidden, pieceColor(ghost.type));
       }
+      ctx.globalAlpha = 1;
     }
 
     const p = s.active;
@@ -78,7 +132,7 @@ export function makeGameRenderer(
       for (const [cx, cy] of shapeCells(p.type, p.rot)) {
         const gx = p.x + cx;
         const gy = p.y + cy;
-        if (gy >= HIDDEN_ROWS && gy < s.boardH) drawCell(gx, gy - HIDDEN_ROWS);
+        if (gy >= hidden && gy < s.boardH) drawCell(gx, gy - hidden, pieceColor(p.type));
       }
     }
 
@@ -87,14 +141,16 @@ export function makeGameRenderer(
     ctx.lineWidth = Math.max(2, Math.round(2 * DPR));
     ctx.strokeRect(pxX + 0.5, pxY + 0.5, pxW - 1, pxH - 1);
 
-    // ---- Update HUD values ONLY when lines change ----
-    if (s.lines !== lastLines) {
-      lastLines = s.lines;
-      displayScore = s.score;
-      displayLevel = s.level;
+    // ---- Hold (left) and next queue (right) ----
+    const mini = cell * 0.7;
+    const panelW = Math.round(mini * 5);
+    const panelGap = Math.round(cell * 0.6);
+    if (params.holdMode !== "disabled") {
+      drawPieceColumn(ctx, "HOLD", [s.hold], pxX - panelGap - panelW, pxY, panelW, mini, DPR, APPLE_FONT, !s.canHold);
     }
+    drawPieceColumn(ctx, "NEXT", previewQueue(s, params), pxX + pxW + panelGap, pxY, panelW, mini, DPR, APPLE_FONT);
 
-    // ---- Draw HUD (always visible; values only change on line-clear) ----
+    // ---- Draw HUD (always visible, live every frame) ----
     const minDim = Math.min(offscreen.width, offscreen.height);
     const hudTitlePx = Math.max(14, Math.round(minDim * 0.018));
     const hudGapPx   = Math.max(6, Math.round(hudTitlePx * 0.4));
@@ -109,7 +165,11 @@ export function makeGameRenderer(
     ctx.shadowColor = "rgba(0,255,127,0.25)";
     ctx.shadowBlur = Math.ceil(2 * DPR);
 
-    const hudText = `Score: ${displayScore.toLocaleString()} • Level: ${displayLevel}`;
+    const streak = [
+      s.combo > 0 ? `Combo ${s.combo}` : "",
+      s.b2b > 0 ? `B2B x${s.b2b}` : "",
+    ].filter(Boolean).join(" • ");
+    const hudText = `Score: ${s.score.toLocaleString()} • Level: ${s.level}` + (streak ? ` • ${streak}` : "");
     ctx.fillText(hudText, hudX, hudY);
 
     ctx.shadowBlur = 0;
@@ -118,7 +178,35 @@ export function makeGameRenderer(
     ctx.fillRect(hudX - Math.ceil(w / 2), hudY + Math.ceil(DPR), Math.ceil(w), Math.ceil(DPR));
     ctx.globalAlpha = 1;
 
-    // ---- Full-screen GAME OVER overlay ----
+    // ---- Mode line (clock + line goal), live every frame ----
+    const mode = params.mode;
+    const left = timeLeftMs(s, params);
+    const modeText = [
+      mode.name.toUpperCase(),
+      `Time: ${formatTime(left ?? gameTimeMs(s, params))}`,
+      mode.lineGoal ? `Lines: ${Math.min(s.lines, mode.lineGoal)}/${mode.lineGoal}` : `Lines: ${s.lines}`,
+      puzzle ? `Goal: ${puzzleGoalLabel(puzzle.goal)}` : "",
+      finesse ? `Finesse: ${finesse.totals.faults}` : "",
+    ].filter(Boolean).join(" • ");
+    ctx.shadowBlur = Math.ceil(2 * DPR);
+    ctx.fillText(modeText, hudX, Math.round(hudY - hudTitlePx * 1.4));
+
+    if (s.lastClear !== seenClear) {
+      seenClear = s.lastClear;
+      const label = seenClear ? clearLabel(seenClear) : "";
+      if (label) {
+        clearText = label;
+        clearUntil = performance.now() + 1500;
+      }
+    }
+    ctx.textBaseline = "top";
+    const belowY = Math.round(pxY + pxH + hudGapPx * 1.2);
+    if (stats) ctx.fillText(ratesText(stats), hudX, belowY);
+    if (clearText && performance.now() < clearUntil) {
+      ctx.fillText(clearText, hudX, stats ? Math.round(belowY + hudTitlePx * 1.4) : belowY);
+    }
+
+    // ---- Full-screen results overlay ----
     if (s.gameOver) {
       ctx.fillStyle = "rgba(0,0,0,0.55)";
       ctx.fillRect(0, 0, offscreen.width, offscreen.height);
@@ -131,13 +219,52 @@ export function makeGameRenderer(
       ctx.shadowColor = "rgba(0,255,127,0.5)";
       ctx.shadowBlur = Math.ceil(6 * DPR);
 
+      const r = s.result;
+      const cx = offscreen.width / 2;
+      const cy = offscreen.height / 2;
       ctx.fillStyle = "#00ff7f";
       ctx.font = `900 ${titleSize}px ${APPLE_FONT}`;
-      ctx.fillText("GAME OVER", offscreen.width / 2, offscreen.height / 2 - titleSize * 0.35);
+      const title = puzzle && r ? (r.end === "goal" ? "SOLVED" : "FAILED") : r ? RESULT_TITLES[r.end] : "GAME OVER";
+      ctx.fillText(title, cx, cy - titleSize * 0.35);
 
       ctx.shadowBlur = Math.ceil(3 * DPR);
       ctx.font = `${subSize}px ${APPLE_FONT}`;
-      ctx.fillText("Press R to restart", offscreen.width / 2, offscreen.height / 2 + subSize * 1.2);
+      let lineY = cy + subSize * 1.2;
+      if (r) {
+        // Lead with what the mode is ranked by
+        const main = mode.ranking === "time" && r.end === "goal"
+          ? `Time: ${formatTime(r.timeMs)}`
+          : `Score: ${r.score.toLocaleString()}`;
+        ctx.fillText(main, cx, lineY);
+        lineY += subSize * 1.4;
+        if (newBest?.current) {
+          ctx.fillText("NEW PERSONAL BEST", cx, lineY);
+          lineY += subSize * 1.4;
+        }
+        ctx.fillText(`Lines: ${r.lines} • Level: ${r.level} • ${formatTime(r.timeMs)}`, cx, lineY);
+        lineY += subSize * 1.4;
+        if (stats && stats.pieces > 0) {
+          const { lpm } = statRates(stats);
+          ctx.fillText(`${stats.pieces} pieces • ${ratesText(stats)}`, cx, lineY);
+          lineY += subSize * 1.4;
+          ctx.fillText(`Attack: ${stats.attack} • LPM ${lpm.toFixed(1)} • Max combo: ${stats.maxCombo}`, cx, lineY);
+          lineY += subSize * 1.4;
+          const clears = Object.entries(stats.clears).map(([label, n]) => `${label} ${n}`).join(" • ");
+          if (clears) {
+            ctx.fillText(clears, cx, lineY);
+            lineY += subSize * 1.4;
+          }
+          ctx.fillText(Object.entries(stats.pieceCounts).map(([k, n]) => `${k} ${n}`).join("  "), cx, lineY);
+          lineY += subSize * 1.4;
+        }
+        if (finesse && finesse.totals.pieces > 0) {
+          const { faults, perfect, pieces } = finesse.totals;
+          ctx.fillText(`Finesse faults: ${faults} • ${Math.round((perfect / pieces) * 100)}% perfect`, cx, lineY);
+          lineY += subSize * 1.4;
+        }
+        lineY += subSize * 0.4;
+      }
+      ctx.fillText("Press R to restart", cx, lineY);
     }
     if (!s.gameOver && !runningRef.current) {
         ctx.fillStyle = "rgba(0,0,0,0.35)";
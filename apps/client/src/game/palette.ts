@@ -0,0 +1,17 @@
+import { CELL, cellPiece, pieceDef, type BoardCell, type ShapeKey } from "@inner-mainframe/game-logic";
+
+// Cells that didn't come from a piece; piece colours come from their piece set.
+export const SPECIAL_COLORS: Record<BoardCell, string> = {
+  [CELL.EMPTY]: "transparent",
+  [CELL.GARBAGE]: "#7a8494",
+  [CELL.SOLID]: "#4b5563",
+};
+
+export function cellColor(code: BoardCell): string {
+  const piece = cellPiece(code);
+  return piece ? pieceColor(piece) : SPECIAL_COLORS[code] ?? SPECIAL_COLORS[CELL.SOLID];
+}
+
+export function pieceColor(type: ShapeKey): string {
+  return pieceDef(type).color;
+}
@@ -1,14 +1,17 @@
 // src/game/render2d.ts
-import { HIDDEN_ROWS, shapeCells, type GameState } from "@inner-mainframe/game-logic";
+import { ghostPiece, shapeCells, visibleHeight, type GameState } from "@inner-mainframe/game-logic";
+import { cellColor, pieceColor } from "./palette";
 
 export function renderTetris2D(
   ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
   s: GameState,
   width: number,
-  height: number,
-  boardW: number,
-  boardH: number
+  height: number
 ) {
+  const boardW = s.boardW;
+  const boardH = visibleHeight(s);
+  const hidden = s.hiddenRows;
+
   // layout: preserve board aspect (H:W = 2:1)
   const aspect = boardH / boardW;
   let cssW = width, cssH = Math.floor(width * aspect);
@@ -32,10 +35,10 @@ export function renderTetris2D(
   ctx.fillRect(0, 0, cssW, cssH);
 
   // draw a cell helper (visible area only)
-  function drawCell(gx: number, gy: number) {
+  function drawCell(gx: number, gy: number, color: string) {
     const x = gx * cell;
     const y = gy * cell;
-    ctx.fillStyle = "#00ff7f";
+    ctx.fillStyle = color;
     ctx.strokeStyle = "rgba(0,0,0,0.35)";
     (ctx as any).lineWidth = 1;
     ctx.fillRect(x, y, cell, cell);
@@ -43,10 +46,21 @@ export function renderTetris2D(
   }
 
   // locked cells (skip hidden rows)
-  for (let y = HIDDEN_ROWS; y < s.boardH; y++) {
+  for (let y = hidden; y < s.boardH; y++) {
     for (let x = 0; x < s.boardW; x++) {
-      if (s.board[y][x]) drawCell(x, y - HIDDEN_ROWS);
+      if (s.board[y][x]) drawCell(x, y - hidden, cellColor(s.board[y][x]));
+    }
+  }
+
+  // ghost (landing position)
+  const ghost = ghostPiece(s);
+  if (ghost) {
+    ctx.globalAlpha = 0.25;
+    for (const [cx, cy] of shapeCells(ghost.type, ghost.rot)) {
+      const gy = ghost.y + cy;
+      if (gy >= hidden && gy < s.boardH) drawCell(ghost.x + cx, gy - hidden, pieceColor(ghost.type));
     }
+    ctx.globalAlpha = 1;
   }
 
   // active piece
@@ -56,7 +70,7 @@ export function renderTetris2D(
     for (const [cx, cy] of cells) {
       const gx = p.x + cx;
       const gy = p.y + cy;
-      if (gy >= HIDDEN_ROWS && gy < s.boardH) drawCell(gx, gy - HIDDEN_ROWS);
+      if (gy >= hidden && gy < s.boardH) drawCell(gx, gy - hidden, pieceColor(p.type));
     }
   }
 
@@ -0,0 +1,45 @@
+import { GAME_MODES, parseReplay, serializeReplay, type Replay } from "@inner-mainframe/game-logic";
+
+const bestKey = (r: Replay) => `im.replay.best.${r.preset}.${r.mode}.${r.pieceSet}`;
+
+// Better result for the mode's ranking: faster finish for time, higher score otherwise.
+function beats(a: Replay, b: Replay | null) {
+  if (!a.result) return false;
+  if (!b?.result) return true;
+  if (GAME_MODES[a.mode].ranking === "time") {
+    if (a.result.end !== "goal") return false;
+    return b.result.end !== "goal" || a.result.timeMs < b.result.timeMs;
+  }
+  return a.result.score > b.result.score;
+}
+
+export function loadReplay(key: string): Replay | null {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? parseReplay(text) : null;
+  } catch {
+    return null; // missing, old version or storage blocked
+  }
+}
+
+// Keeps the personal best per rule set + mode + piece set.
+// Returns true if this one is a new best.
+export function saveReplay(replay: Replay): boolean {
+  if (!beats(replay, loadReplay(bestKey(replay)))) return false;
+  try {
+    localStorage.setItem(bestKey(replay), serializeReplay(replay));
+  } catch {
+    // storage full or blocked: still a best, just not kept
+  }
+  return true;
+}
+
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([serializeReplay(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `replay-${replay.preset}-${replay.mode}-${replay.pieceSet}-${replay.seed}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
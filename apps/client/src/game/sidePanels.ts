@@ -0,0 +1,71 @@
+import { shapeCells, type ShapeKey } from "@inner-mainframe/game-logic";
+import { pieceColor } from "./palette";
+
+// Piece in spawn orientation, centred on (cx, cy).
+export function drawMiniPiece(
+  ctx: OffscreenCanvasRenderingContext2D,
+  type: ShapeKey,
+  cx: number,
+  cy: number,
+  cell: number,
+  dim = false
+) {
+  const cells = shapeCells(type, 0);
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of cells) {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  }
+  const ox = cx - ((maxX - minX + 1) * cell) / 2;
+  const oy = cy - ((maxY - minY + 1) * cell) / 2;
+
+  ctx.globalAlpha = dim ? 0.35 : 1;
+  ctx.fillStyle = pieceColor(type);
+  ctx.strokeStyle = "rgba(0,0,0,0.35)";
+  ctx.lineWidth = 1;
+  for (const [x, y] of cells) {
+    const px = Math.floor(ox + (x - minX) * cell);
+    const py = Math.floor(oy + (y - minY) * cell);
+    ctx.fillRect(px, py, Math.ceil(cell), Math.ceil(cell));
+    ctx.strokeRect(px + 0.5, py + 0.5, Math.ceil(cell) - 1, Math.ceil(cell) - 1);
+  }
+  ctx.globalAlpha = 1;
+}
+
+// Labelled green box with one slot per entry (HOLD gets one, NEXT gets the preview queue).
+// Returns nothing to draw when there are no slots, so a 0-piece preview hides the box.
+export function drawPieceColumn(
+  ctx: OffscreenCanvasRenderingContext2D,
+  label: string,
+  pieces: Array<ShapeKey | null>,
+  x: number,
+  y: number,
+  w: number,
+  cell: number,
+  DPR: number,
+  font: string,
+  dim = false
+) {
+  if (!pieces.length) return;
+  const slotH = cell * 3;
+  const labelPx = Math.max(10, Math.round(cell * 0.9));
+  const boxY = y + labelPx + Math.round(4 * DPR);
+  const boxH = Math.round(slotH * pieces.length + cell);
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  ctx.fillStyle = "#00ff7f";
+  ctx.font = `bold ${labelPx}px ${font}`;
+  ctx.fillText(label, x + w / 2, y);
+
+  ctx.fillStyle = "#0e1626";
+  ctx.fillRect(x, boxY, w, boxH);
+  ctx.strokeStyle = "#00ff7f";
+  ctx.lineWidth = Math.max(1, Math.round(DPR));
+  ctx.strokeRect(x + 0.5, boxY + 0.5, w - 1, boxH - 1);
+
+  pieces.forEach((type, i) => {
+    if (!type) return;
+    drawMiniPiece(ctx, type, x + w / 2, boxY + cell / 2 + slotH * (i + 0.5), cell, dim);
+  });
+}
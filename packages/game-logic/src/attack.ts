@@ -0,0 +1,46 @@
+import type { AttackTable, ClearInfo } from "./types";
+
+export type AttackTableName = "modern" | "classic";
+
+// Modern guideline versus: T-spins send double, combos and B2B add on, PC sends 10.
+export const MODERN_ATTACK: AttackTable = {
+  name: "modern",
+  lines: [0, 0, 1, 2, 4],
+  tspin: [0, 2, 4, 6],
+  tspinMini: [0, 0, 1],
+  combo: [0, 0, 1, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+  backToBack: 1,
+  perfectClear: 10,
+};
+
+// Classic: lines only, a tetris sends 4; spins, chains and perfect clears add nothing.
+export const CLASSIC_ATTACK: AttackTable = {
+  name: "classic",
+  lines: [0, 0, 1, 2, 4],
+  tspin: [0, 0, 1, 2],
+  tspinMini: [0, 0, 1],
+  combo: [0],
+  backToBack: 0,
+  perfectClear: 0,
+};
+
+export const ATTACK_TABLES: Record<AttackTableName, AttackTable> = {
+  modern: MODERN_ATTACK,
+  classic: CLASSIC_ATTACK,
+};
+
+// Past the end of a table the last entry repeats.
+const at = (table: number[], i: number) => table[Math.min(i, table.length - 1)] ?? 0;
+
+// Lines a clear sends before cancelling incoming garbage.
+export function attackFor(table: AttackTable, clear: ClearInfo): number {
+  if (!clear.lines) return 0;
+  let lines =
+    clear.tspin === "full" ? at(table.tspin, clear.lines) :
+    clear.tspin === "mini" ? at(table.tspinMini, clear.lines) :
+    at(table.lines, clear.lines);
+  if (clear.backToBack) lines += table.backToBack;
+  if (clear.combo > 0) lines += at(table.combo, clear.combo);
+  if (clear.perfectClear) lines += table.perfectClear;
+  return lines;
+}
@@ -1,10 +1,12 @@
+import type { PieceSet } from "./types";
 import type { ShapeKey } from "./shapes";
 import { RNG } from "./rng";
+import { pieceKeys } from "./pieces";
 
-const ALL: ShapeKey[] = ["I","O","T","J","L","S","Z"];
-
-export function generateBag(rng: RNG): ShapeKey[] {
-  const bag = [...ALL];
+// One shuffled bag holding `copies` of every piece in the set.
+export function generateBag(rng: RNG, pieces: PieceSet, copies = 1): ShapeKey[] {
+  const bag: ShapeKey[] = [];
+  for (let c = 0; c < copies; c++) bag.push(...pieceKeys(pieces));
   // Fisher–Yates
   for (let i = bag.length - 1; i > 0; i--) {
     const j = Math.floor(rng.next() * (i + 1));
@@ -1,16 +1,29 @@
-import type { Board, GameState, Piece } from "./types";
-import { SHAPES, rotateCells, normalize } from "./shapes";
-
-type BoardCell = 0 | 1;
+import { CELL, type Board, type BoardCell, type GameState, type Piece } from "./types";
+import { rotateCells, type Cell, type ShapeKey } from "./shapes";
+import { pieceCell, pieceDef } from "./pieces";
 
 export function makeBoard(w: number, h: number): Board {
   const rows: Board = [];
-  for (let r = 0; r < h; r++) rows.push(Array<BoardCell>(w).fill(0) as number[] as any);
+  for (let r = 0; r < h; r++) rows.push(Array<BoardCell>(w).fill(CELL.EMPTY));
   return rows;
 }
 
-export function shapeCells(type: Piece["type"], rot: number) {
-  return normalize(rotateCells(SHAPES[type], rot)); // local cell coords
+// Rows of the visible field, below the hidden buffer.
+export function visibleHeight(state: GameState): number {
+  return state.boardH - state.hiddenRows;
+}
+
+// Cells within the rotation box for every rotation, computed once per piece; treat as read-only.
+const CELLS_BY_ROT = new Map<ShapeKey, Cell[][]>();
+
+export function shapeCells(type: Piece["type"], rot: number): readonly Cell[] {
+  let rots = CELLS_BY_ROT.get(type);
+  if (!rots) {
+    const def = pieceDef(type);
+    rots = [0, 1, 2, 3].map((r) => rotateCells(def.cells, r, def.center));
+    CELLS_BY_ROT.set(type, rots);
+  }
+  return rots[((rot % 4) + 4) % 4];
 }
 
 export function collides(state: GameState, p: Piece): boolean {
@@ -31,13 +44,23 @@ export function collides(state: GameState, p: Piece): boolean {
   return false;
 }
 
+// Where the active piece would land if hard dropped now.
+export function ghostPiece(state: GameState): Piece | null {
+  if (!state.active) return null;
+  let ghost = state.active;
+  for (;;) {
+    const below = { ...ghost, y: ghost.y + 1 };
+    if (collides(state, below)) return ghost;
+    ghost = below;
+  }
+}
 
 export function lockToBoard(state: GameState, p: Piece) {
   const cells = shapeCells(p.type, p.rot);
   for (const [cx, cy] of cells) {
     const gx = p.x + cx, gy = p.y + cy;
     if (gy >= 0 && gy < state.boardH && gx >= 0 && gx < state.boardW) {
-      state.board[gy][gx] = 1;
+      state.board[gy][gx] = pieceCell(p.type);
     }
   }
 }
@@ -58,6 +81,6 @@ export function fullRows(state: GameState): number[] {
 export function clearRows(state: GameState, rows: number[]) {
   for (const y of rows) {
     state.board.splice(y, 1);
-    state.board.unshift(Array(state.boardW).fill(0) as any);
+    state.board.unshift(Array<BoardCell>(state.boardW).fill(CELL.EMPTY));
   }
 }
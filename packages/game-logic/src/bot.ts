@@ -0,0 +1,294 @@
+import type { Board, GameParams, GameState, Inputs, Piece, TSpin } from "./types";
+import type { ShapeKey } from "./shapes";
+import { collides, fullRows, lockToBoard, shapeCells } from "./board";
+import { tryRotateWithKicks } from "./srs";
+import { detectTSpin } from "./tspin";
+import { isTwentyG } from "./gravity";
+import { spawnPosition } from "./logic";
+
+// One player action: a tap, a rotation or a single row of soft drop.
+export type BotMove = "left" | "right" | "down" | "cw" | "ccw" | "180";
+
+export interface Placement {
+  piece: Piece;      // where it locks
+  path: BotMove[];   // from the starting position; a hard drop follows
+  tspin: TSpin;
+  lines: number;
+  score: number;     // heuristic value, higher is better
+}
+
+// Heuristic weights; negative ones are penalties.
+export interface BotWeights {
+  height: number;    // sum of column heights
+  holes: number;     // empty cells under the surface
+  bumpiness: number; // sum of height steps between neighbouring columns
+  wells: number;     // well depth, not counting the deepest one (kept for tetrises)
+  lines: number;     // lines cleared by the placement
+  tSlots: number;    // open T-spin slots left on the board
+  tSpin: number;     // per line cleared by a full T-spin
+}
+
+// El-Tetris-like defaults, plus a taste for T-spins.
+export const DEFAULT_BOT_WEIGHTS: BotWeights = {
+  height: -0.51,
+  holes: -0.36,
+  bumpiness: -0.18,
+  wells: -0.12,
+  lines: 0.76,
+  tSlots: 0.3,
+  tSpin: 1.2,
+};
+
+interface Node {
+  piece: Piece;
+  move: BotMove | null; // how we got here from `parent`
+  parent: Node | null;
+  rotated: boolean;     // last move was a rotation (T-spin check)
+  kick: number;
+}
+
+// Nodes from the start of the search to `node`, inclusive.
+function routeOf(node: Node): Node[] {
+  const route: Node[] = [];
+  for (let n: Node | null = node; n; n = n.parent) route.push(n);
+  return route.reverse();
+}
+
+const pathOf = (node: Node) => routeOf(node).slice(1).map((n) => n.move as BotMove);
+
+const MOVES: BotMove[] = ["left", "right", "cw", "ccw", "down"];
+const MOVES_180: BotMove[] = [...MOVES, "180"];
+
+const grounded = (state: GameState, p: Piece) => collides(state, { ...p, y: p.y + 1 });
+
+const nodeKey = (n: Node) =>
+  `${n.piece.x},${n.piece.y},${n.piece.rot}` + (n.piece.type === "T" && n.rotated ? `r${n.kick}` : "");
+
+function apply(state: GameState, node: Node, move: BotMove, sonic: boolean): Node | null {
+  const p = node.piece;
+  let next: Node | null = null;
+  if (move === "cw" || move === "ccw" || move === "180") {
+    const r = tryRotateWithKicks(
+      (rot, dx, dy) => !collides(state, { ...p, rot, x: p.x + dx, y: p.y + dy }),
+      p.type, p.rot, move === "cw" ? 1 : move === "ccw" ? -1 : 2
+    );
+    if (r.ok) {
+      const kick = move === "180" ? -1 : r.kick; // as in the game: only quarter turns count for T-spins
+      next = { piece: { ...p, rot: r.rot, x: p.x + r.dx, y: p.y + r.dy }, move, parent: node, rotated: true, kick };
+    }
+  } else {
+    const dx = move === "left" ? -1 : move === "right" ? 1 : 0;
+    const moved = { ...p, x: p.x + dx, y: p.y + (move === "down" ? 1 : 0) };
+    if (!collides(state, moved)) next = { piece: moved, move, parent: node, rotated: false, kick: -1 };
+  }
+  // at 20G the piece falls to the floor after every action
+  if (next && sonic) {
+    while (!collides(state, { ...next.piece, y: next.piece.y + 1 })) {
+      next.piece = { ...next.piece, y: next.piece.y + 1 };
+      next.rotated = false;
+    }
+  }
+  return next;
+}
+
+// Breadth-first over every (x, y, rotation) the piece can reach from `start`,
+// so paths are shortest and tucks and spins are included. visit() returns true to stop.
+function search(state: GameState, params: GameParams, start: Piece, visit: (n: Node) => boolean | void) {
+  const sonic = isTwentyG(params.gravityCellsPerSec(state.level));
+  // without lock delay a piece locks the moment it lands, so it can't slide or spin there
+  const lockOnLanding = params.lockDelayMs <= 0;
+  const moves = params.rotate180 ? MOVES_180 : MOVES;
+  const first: Node = { piece: start, move: null, parent: null, rotated: false, kick: -1 };
+  const seen = new Set([nodeKey(first)]);
+  const queue = [first];
+  for (let i = 0; i < queue.length; i++) {
+    if (visit(queue[i])) return;
+    if (lockOnLanding && grounded(state, queue[i].piece)) continue;
+    for (const move of moves) {
+      const next = apply(state, queue[i], move, sonic);
+      if (!next) continue;
+      const key = nodeKey(next);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      queue.push(next);
+    }
+  }
+}
+
+// Every distinct resting place for `start`, scored with `weights`.
+export function findPlacements(
+  state: GameState, params: GameParams, start: Piece, weights: BotWeights = DEFAULT_BOT_WEIGHTS
+): Placement[] {
+  const byKey = new Map<string, Placement>();
+  search(state, params, start, (n) => {
+    if (!grounded(state, n.piece)) return;
+    const tspin = detectTSpin({ ...state, lastMove: n.rotated ? "rotate" : "move", lastKick: n.kick }, n.piece);
+    // same cells (e.g. S/Z/I rotations) and spin: keep the first, shortest path
+    const cells = shapeCells(n.piece.type, n.piece.rot).map(([cx, cy]) => `${n.piece.x + cx},${n.piece.y + cy}`).sort();
+    const key = cells.join(" ") + tspin;
+    if (byKey.has(key)) return;
+    const { board, lines } = afterLock(state, n.piece);
+    byKey.set(key, { piece: n.piece, path: pathOf(n), tspin, lines, score: evaluateBoard(board, weights, lines, tspin) });
+  });
+  return [...byKey.values()];
+}
+
+function searchTo(state: GameState, params: GameParams, from: Piece, to: Piece, spin: boolean): Node | null {
+  let found: Node | null = null;
+  search(state, params, from, (n) => {
+    if (!samePlace(n.piece, to)) return false;
+    if (spin && !n.rotated) return false;
+    found = n;
+    return true;
+  });
+  return found;
+}
+
+// Shortest path from `from` to exactly `to`, or null if it can't be reached.
+// `spin`: the last move has to be a rotation, to keep a T-spin a T-spin.
+export function findPath(state: GameState, params: GameParams, from: Piece, to: Piece, spin = false): BotMove[] | null {
+  const node = searchTo(state, params, from, to, spin);
+  return node && pathOf(node);
+}
+
+const samePlace = (a: Piece, b: Piece) => a.x === b.x && a.y === b.y && a.rot === b.rot;
+
+function afterLock(state: GameState, p: Piece): { board: Board; lines: number } {
+  const copy = { ...state, board: state.board.map((row) => row.slice()) };
+  lockToBoard(copy, p);
+  const rows = fullRows(copy);
+  const board = copy.board.filter((_, y) => !rows.includes(y));
+  while (board.length < state.boardH) board.unshift(Array(state.boardW).fill(0));
+  return { board, lines: rows.length };
+}
+
+function columnHeights(board: Board): number[] {
+  const h = board.length;
+  return board[0].map((_, x) => {
+    for (let y = 0; y < h; y++) if (board[y][x]) return h - y;
+    return 0;
+  });
+}
+
+const filled = (board: Board, x: number, y: number) =>
+  x < 0 || x >= board[0].length || y >= board.length || (y >= 0 && board[y][x] !== 0);
+
+// T-slot: a 3-wide opening with a single notch below its middle and an overhang on one side.
+function countTSlots(board: Board): number {
+  let n = 0;
+  for (let y = 1; y < board.length - 1; y++) {
+    for (let x = 1; x < board[0].length - 1; x++) {
+      const open = !filled(board, x - 1, y) && !filled(board, x, y) && !filled(board, x + 1, y) && !filled(board, x, y + 1);
+      if (!open || !filled(board, x - 1, y + 1) || !filled(board, x + 1, y + 1)) continue;
+      if (!filled(board, x, y - 1) && (filled(board, x - 1, y - 1) || filled(board, x + 1, y - 1))) n++;
+    }
+  }
+  return n;
+}
+
+// Heuristic value of a board after a placement.
+export function evaluateBoard(board: Board, weights: BotWeights, lines = 0, tspin: TSpin = "none"): number {
+  const heights = columnHeights(board);
+  const w = heights.length;
+
+  let holes = 0;
+  for (let x = 0; x < w; x++) {
+    for (let y = board.length - heights[x] + 1; y < board.length; y++) if (!board[y][x]) holes++;
+  }
+
+  let bumpiness = 0;
+  for (let x = 0; x + 1 < w; x++) bumpiness += Math.abs(heights[x] - heights[x + 1]);
+
+  const wellDepths = heights.map((h, x) =>
+    Math.max(0, Math.min(heights[x - 1] ?? Infinity, heights[x + 1] ?? Infinity) - h));
+  const wells = wellDepths.reduce((a, b) => a + b, 0) - Math.max(0, ...wellDepths);
+
+  return (
+    weights.height * heights.reduce((a, b) => a + b, 0) +
+    weights.holes * holes +
+    weights.bumpiness * bumpiness +
+    weights.wells * wells +
+    weights.lines * lines +
+    weights.tSlots * countTSlots(board) +
+    (tspin === "full" ? weights.tSpin * lines : 0)
+  );
+}
+
+export interface BotPlan {
+  hold: boolean;        // press hold first, then place the piece that comes out
+  placement: Placement;
+}
+
+// Best placement for the active piece, or for the one hold would bring in.
+export function planMove(state: GameState, params: GameParams, weights: BotWeights = DEFAULT_BOT_WEIGHTS): BotPlan | null {
+  if (!state.active) return null;
+  const best = (start: Piece) =>
+    findPlacements(state, params, start, weights).reduce<Placement | null>((a, b) => (!a || b.score > a.score ? b : a), null);
+
+  const current = best(state.active);
+  const holdType: ShapeKey | undefined = state.hold ?? state.next[0];
+  if (params.holdMode === "disabled" || !state.canHold || !holdType || holdType === state.active.type) {
+    return current && { hold: false, placement: current };
+  }
+  const held = best(spawnPosition(state, holdType, params));
+  if (held && (!current || held.score > current.score)) return { hold: true, placement: held };
+  return current && { hold: false, placement: current };
+}
+
+// Turns plans into per-tick Inputs. It follows the planned route while the piece
+// is on it and re-paths from wherever the piece is otherwise, so gravity, DAS
+// and lock delay can't knock it off course.
+export class BotController {
+  private target: Placement | null = null;
+  private route: Node[] = [];
+  private last: Inputs = {};
+
+  constructor(public weights: BotWeights = DEFAULT_BOT_WEIGHTS) {}
+
+  // Inputs for the next step() of `state`.
+  inputs(state: GameState, params: GameParams): Inputs {
+    this.last = this.decide(state, params);
+    return this.last;
+  }
+
+  private decide(state: GameState, params: GameParams): Inputs {
+    const p = state.active;
+    if (state.gameOver || state.phase !== "falling" || !p) {
+      this.target = null;
+      return {};
+    }
+    if (!this.target || this.target.piece.type !== p.type) {
+      const plan = planMove(state, params, this.weights);
+      if (!plan) return { hardDrop: true };
+      if (plan.hold) return { hold: true }; // plan again once the held piece is out
+      this.target = plan.placement;
+      this.route = [];
+    }
+
+    let at = this.route.findIndex((n) => samePlace(n.piece, p));
+    if (at < 0) {
+      const end = searchTo(state, params, p, this.target.piece, this.target.tspin !== "none");
+      if (!end) {
+        this.target = null; // the stack moved under us: plan again next tick
+        return {};
+      }
+      this.route = routeOf(end);
+      at = 0;
+    }
+    const next = this.route[at + 1];
+    if (!next) {
+      this.target = null;
+      return { hardDrop: true };
+    }
+    switch (next.move) {
+      // taps need a release in between or DAS sees one long press
+      case "left": return this.last.left ? {} : { left: true };
+      case "right": return this.last.right ? {} : { right: true };
+      case "cw": return { rotCW: true };
+      case "ccw": return { rotCCW: true };
+      case "180": return { rot180: true };
+      case "down": return { softDrop: true };
+    }
+    return {};
+  }
+}
@@ -0,0 +1,141 @@
+import type { GameEvent, GameParams, GameState, Inputs, Piece } from "./types";
+import { DEFAULT_PARAMS } from "./params";
+import { shapeCells } from "./board";
+import { tryRotateWithKicks } from "./srs";
+import { spawnPosition } from "./logic";
+
+// One counted input: a tap, a hold of left/right until the wall (DAS), or a rotation.
+export type FinesseMove = "left" | "right" | "dasLeft" | "dasRight" | "cw" | "ccw" | "180";
+
+const MOVES: FinesseMove[] = ["left", "right", "dasLeft", "dasRight", "cw", "ccw"];
+const MOVES_180: FinesseMove[] = [...MOVES, "180"];
+
+// Finesse is judged on an empty board: only the walls are in the way.
+const inBounds = (boardW: number, p: Piece) =>
+  shapeCells(p.type, p.rot).every(([cx]) => p.x + cx >= 0 && p.x + cx < boardW);
+
+// Columns and shape a piece covers, ignoring height: rotations that fill the
+// same cells (I, S, Z, O) count as the same placement.
+function footprint(p: Piece): string {
+  const cells = shapeCells(p.type, p.rot);
+  const top = Math.min(...cells.map(([, cy]) => cy));
+  return cells.map(([cx, cy]) => `${p.x + cx},${cy - top}`).sort().join(" ");
+}
+
+function apply(boardW: number, p: Piece, move: FinesseMove): Piece | null {
+  switch (move) {
+    case "left":
+    case "right": {
+      const moved = { ...p, x: p.x + (move === "left" ? -1 : 1) };
+      return inBounds(boardW, moved) ? moved : null;
+    }
+    case "dasLeft":
+    case "dasRight": {
+      const dx = move === "dasLeft" ? -1 : 1;
+      let moved = p;
+      while (inBounds(boardW, { ...moved, x: moved.x + dx })) moved = { ...moved, x: moved.x + dx };
+      return moved === p ? null : moved;
+    }
+    case "cw":
+    case "ccw":
+    case "180": {
+      const r = tryRotateWithKicks(
+        (rot, dx) => inBounds(boardW, { ...p, rot, x: p.x + dx }),
+        p.type, p.rot, move === "cw" ? 1 : move === "ccw" ? -1 : 2
+      );
+      return r.ok ? { ...p, rot: r.rot, x: p.x + r.dx } : null;
+    }
+  }
+}
+
+// Fewest inputs that put a fresh piece over `target`'s columns in its shape,
+// ready to hard drop; null if no sequence gets there (tucks, spins). 180s
+// count when the rules have them.
+export function finessePath(
+  state: GameState, target: Piece, params: GameParams = DEFAULT_PARAMS
+): FinesseMove[] | null {
+  const goal = footprint(target);
+  const start = spawnPosition(state, target.type, params);
+  const key = (p: Piece) => `${p.x},${p.rot}`;
+  const paths = new Map<string, FinesseMove[]>([[key(start), []]]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    const p = queue[i];
+    const path = paths.get(key(p)) as FinesseMove[];
+    if (footprint(p) === goal) return path;
+    for (const move of params.rotate180 ? MOVES_180 : MOVES) {
+      const next = apply(state.boardW, p, move);
+      if (!next || paths.has(key(next))) continue;
+      paths.set(key(next), [...path, move]);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+export interface FinesseResult {
+  piece: Piece;           // where it locked
+  inputs: number;         // presses the player used
+  optimal: FinesseMove[]; // one shortest sequence
+  faults: number;         // inputs beyond the optimum
+}
+
+export interface FinesseTotals {
+  pieces: number;  // pieces judged
+  faults: number;  // sum of their faults
+  perfect: number; // judged pieces with no fault
+}
+
+// Watches the Inputs given to every step() and judges each placement on lock.
+// A press is a left/right going down (holding it is still one press) or a
+// rotation; pieces that were soft dropped or spun into place aren't judged.
+export class FinesseTracker {
+  readonly pieces: FinesseResult[] = [];
+  readonly totals: FinesseTotals = { pieces: 0, faults: 0, perfect: 0 };
+  private inputs = 0;
+  private softDropped = false;
+  private prev: Inputs = {};
+
+  // Call after each step() with what it was given and returned; returns the
+  // judgement if a piece locked this tick.
+  record(
+    state: GameState, inputs: Inputs, events: GameEvent[], params: GameParams = DEFAULT_PARAMS
+  ): FinesseResult | null {
+    if (inputs.left && !this.prev.left) this.inputs++;
+    if (inputs.right && !this.prev.right) this.inputs++;
+    if (inputs.rotCW) this.inputs++;
+    if (inputs.rotCCW) this.inputs++;
+    if (inputs.rot180 && params.rotate180) this.inputs++;
+    if (inputs.softDrop) this.softDropped = true;
+    this.prev = { ...inputs };
+
+    let judged: FinesseResult | null = null;
+    const spun = events.some((e) => e.type === "clear" && e.clear.tspin !== "none");
+    for (const e of events) {
+      if (e.type === "hold") this.startPiece();
+      if (e.type !== "lock") continue;
+      const optimal = this.softDropped || spun ? null : finessePath(state, e.piece, params);
+      if (optimal) {
+        judged = { piece: e.piece, inputs: this.inputs, optimal, faults: Math.max(0, this.inputs - optimal.length) };
+        this.pieces.push(judged);
+        this.totals.pieces++;
+        this.totals.faults += judged.faults;
+        if (judged.faults === 0) this.totals.perfect++;
+      }
+      this.startPiece();
+    }
+    return judged;
+  }
+
+  reset() {
+    this.pieces.length = 0;
+    Object.assign(this.totals, { pieces: 0, faults: 0, perfect: 0 });
+    this.startPiece();
+    this.prev = {};
+  }
+
+  private startPiece() {
+    this.inputs = 0;
+    this.softDropped = false;
+  }
+}
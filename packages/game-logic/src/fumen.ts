@@ -0,0 +1,304 @@
+import { CELL, type Board, type BoardCell, type Piece } from "./types";
+import { SHAPE_KEYS, type Cell, type ShapeKey, type TetrominoKey } from "./shapes";
+import { cellPiece } from "./pieces";
+import { shapeCells } from "./board";
+
+// Fumen (v115) pages: a 10 x 23 field, a placement and a comment each. Only
+// tetrominoes and gray cells exist in fumen, so other sets can't be encoded.
+export const FUMEN_COLS = 10;
+export const FUMEN_ROWS = 23;
+
+export interface FumenPage {
+  board: Board;        // top row first, as the page shows it before `piece` goes in
+  piece: Piece | null; // placement on this page, in `board` coordinates
+  comment: string;     // pages without a comment of their own repeat the last one
+  lock: boolean;       // the piece locks and full rows clear before the next page
+}
+
+const TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const COMMENT_CHARS =
+  " !\"#$%&'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~";
+const COMMENT_BASE = COMMENT_CHARS.length + 1;
+
+// The field is encoded with one extra row under the floor: the garbage row a
+// "rise" page pushes up.
+const FIELD_ROWS = FUMEN_ROWS + 1;
+const FIELD_BLOCKS = FIELD_ROWS * FUMEN_COLS;
+const GRAY = 8;
+
+// Fumen piece codes, 1-7; 8 is a gray cell.
+const PIECES: (TetrominoKey | null)[] = [null, "I", "L", "O", "Z", "T", "J", "S"];
+
+// Minos around the piece's anchor, y up, in spawn orientation.
+const OFFSETS: Record<TetrominoKey, Cell[]> = {
+  I: [[0, 0], [-1, 0], [1, 0], [2, 0]],
+  T: [[0, 0], [-1, 0], [1, 0], [0, 1]],
+  O: [[0, 0], [1, 0], [0, 1], [1, 1]],
+  L: [[0, 0], [-1, 0], [1, 0], [1, 1]],
+  J: [[0, 0], [-1, 0], [1, 0], [-1, 1]],
+  S: [[0, 0], [-1, 0], [0, 1], [1, 1]],
+  Z: [[0, 0], [1, 0], [0, 1], [-1, 1]],
+};
+
+// Rotation codes: 0 reverse, 1 right, 2 spawn, 3 left. The map is its own inverse.
+const ROTATIONS = [2, 1, 0, 3];
+
+// Fumen stores some anchors one cell off from where OFFSETS expects them.
+const ANCHOR_FIX: Partial<Record<TetrominoKey, Cell[]>> = {
+  O: [[0, -1], [0, 0], [1, 0], [1, -1]],
+  I: [[0, 0], [0, 0], [1, 0], [0, -1]],
+  S: [[0, -1], [-1, 0], [0, 0], [0, 0]],
+  Z: [[0, -1], [0, 0], [0, 0], [1, 0]],
+};
+
+// Internal field: FIELD_ROWS rows of fumen codes, top first, garbage row last.
+type Field = number[][];
+
+const emptyField = (): Field => Array.from({ length: FIELD_ROWS }, () => Array(FUMEN_COLS).fill(0));
+
+function toFumenCell(code: BoardCell): number {
+  if (code === CELL.EMPTY) return 0;
+  const piece = cellPiece(code);
+  if (!piece) return GRAY;
+  const n = PIECES.indexOf(piece as TetrominoKey);
+  if (n < 0) throw new Error(`Piece "${piece}" can't be stored in a fumen`);
+  return n;
+}
+
+function fromFumenCell(n: number): BoardCell {
+  if (n === 0) return CELL.EMPTY;
+  const piece = PIECES[n];
+  return piece ? CELL[piece] : CELL.GARBAGE;
+}
+
+// Cells of a fumen placement as [column, field row].
+function anchoredCells(type: TetrominoKey, rot: number, x: number, y: number): Cell[] {
+  return OFFSETS[type].map(([dx, dy]): Cell => {
+    const [rx, ry] = rot === 1 ? [dy, -dx] : rot === 2 ? [-dx, -dy] : rot === 3 ? [-dy, dx] : [dx, dy];
+    return [x + rx, FUMEN_ROWS - 1 - (y + ry)];
+  });
+}
+
+// Moves `cells` so their top-left corner sits on `at`'s.
+function alignTo(cells: readonly Cell[], at: readonly Cell[]): [number, number] {
+  const min = (cs: readonly Cell[], i: 0 | 1) => Math.min(...cs.map((c) => c[i]));
+  return [min(at, 0) - min(cells, 0), min(at, 1) - min(cells, 1)];
+}
+
+function pieceFromFumen(code: number, rotCode: number, position: number): Piece | null {
+  const type = PIECES[code];
+  if (!type) return null;
+  const rot = ROTATIONS[rotCode];
+  const [fx, fy] = ANCHOR_FIX[type]?.[rot] ?? [0, 0];
+  const x = (position % FUMEN_COLS) + fx;
+  const y = FUMEN_ROWS - Math.floor(position / FUMEN_COLS) - 1 + fy;
+  const [px, py] = alignTo(shapeCells(type, rot), anchoredCells(type, rot, x, y));
+  return { type, rot, x: px, y: py };
+}
+
+// [piece code, rotation code, position] of a placement on a FUMEN_ROWS board.
+function pieceToFumen(p: Piece): [number, number, number] {
+  const code = PIECES.indexOf(p.type as TetrominoKey);
+  if (code < 1) throw new Error(`Piece "${p.type}" can't be stored in a fumen`);
+  const type = p.type as TetrominoKey;
+  const cells = shapeCells(type, p.rot).map(([cx, cy]): Cell => [p.x + cx, p.y + cy]);
+  const [ax, ay] = alignTo(anchoredCells(type, p.rot, 0, FUMEN_ROWS - 1), cells);
+  const [fx, fy] = ANCHOR_FIX[type]?.[p.rot] ?? [0, 0];
+  const x = ax - fx;
+  const y = FUMEN_ROWS - 1 - ay - fy;
+  return [code, ROTATIONS[p.rot], (FUMEN_ROWS - y - 1) * FUMEN_COLS + x];
+}
+
+// What happens to the field when a page's piece locks: fill, clear, then the
+// rise and mirror flags.
+function lockPage(field: Field, piece: Piece | null, rise: boolean, mirror: boolean): Field {
+  if (piece) {
+    const code = PIECES.indexOf(piece.type as TetrominoKey);
+    for (const [cx, cy] of shapeCells(piece.type, piece.rot)) {
+      const row = field[piece.y + cy];
+      if (row && piece.y + cy < FUMEN_ROWS) row[piece.x + cx] = code;
+    }
+  }
+  let rows = field.slice(0, FUMEN_ROWS).filter((row) => row.some((n) => n === 0));
+  while (rows.length < FUMEN_ROWS) rows.unshift(Array(FUMEN_COLS).fill(0));
+  let garbage = field[FUMEN_ROWS];
+  if (rise) {
+    rows = [...rows.slice(1), garbage];
+    garbage = Array(FUMEN_COLS).fill(0);
+  }
+  if (mirror) rows = rows.map((row) => row.slice().reverse());
+  return [...rows, garbage];
+}
+
+// Accepts a bare "v115@..." string or any link or text that contains one.
+export function decodeFumen(text: string): FumenPage[] {
+  const at = text.search(/[vmd]115@/);
+  if (at < 0) throw new Error("Not a v115 fumen");
+  const data = text.slice(at + 5).replace(/[?\s]/g, "").replace(/[&#].*$/, "");
+  const values = [...data].map((ch) => {
+    const v = TABLE.indexOf(ch);
+    if (v < 0) throw new Error(`Unexpected "${ch}" in fumen data`);
+    return v;
+  });
+
+  let pos = 0;
+  const poll = (digits: number) => {
+    if (pos + digits > values.length) throw new Error("Fumen data ends mid-page");
+    let v = 0;
+    for (let i = 0; i < digits; i++) v += values[pos++] * 64 ** i;
+    return v;
+  };
+
+  const pages: FumenPage[] = [];
+  let field = emptyField();
+  let repeat = 0;
+  let comment = "";
+  while (pos < values.length) {
+    if (repeat > 0) {
+      repeat--;
+    } else {
+      let changed = true;
+      for (let i = 0; i < FIELD_BLOCKS;) {
+        const v = poll(2);
+        const diff = Math.floor(v / FIELD_BLOCKS) - 8;
+        const count = (v % FIELD_BLOCKS) + 1;
+        if (diff === 0 && count === FIELD_BLOCKS) changed = false;
+        for (let end = Math.min(FIELD_BLOCKS, i + count); i < end; i++) {
+          field[Math.floor(i / FUMEN_COLS)][i % FUMEN_COLS] += diff;
+        }
+      }
+      if (!changed) repeat = poll(1);
+    }
+
+    let action = poll(3);
+    const code = action % 8; action = Math.floor(action / 8);
+    const rotCode = action % 4; action = Math.floor(action / 4);
+    const position = action % FIELD_BLOCKS; action = Math.floor(action / FIELD_BLOCKS);
+    const rise = action % 2 === 1; action = Math.floor(action / 2);
+    const mirror = action % 2 === 1; action = Math.floor(action / 2);
+    action = Math.floor(action / 2); // colour flag, always on for us
+    const hasComment = action % 2 === 1; action = Math.floor(action / 2);
+    const lock = action % 2 === 0;
+
+    if (hasComment) {
+      const length = poll(2);
+      let escaped = "";
+      for (let i = 0; i < length; i += 4) {
+        let v = poll(5);
+        for (let j = 0; j < 4; j++, v = Math.floor(v / COMMENT_BASE)) escaped += COMMENT_CHARS[v % COMMENT_BASE] ?? "";
+      }
+      comment = unescape(escaped.slice(0, length));
+    }
+
+    const piece = pieceFromFumen(code, rotCode, position);
+    pages.push({
+      board: field.slice(0, FUMEN_ROWS).map((row) => row.map(fromFumenCell)),
+      piece,
+      comment,
+      lock,
+    });
+    if (lock) field = lockPage(field, piece, rise, mirror);
+  }
+  return pages;
+}
+
+// Boards may be any height: they're matched up by their bottom rows, and rows
+// above the fumen's 23 have to be empty.
+export function encodeFumen(pages: FumenPage[]): string {
+  const out: number[] = [];
+  const push = (value: number, digits: number) => {
+    for (let i = 0; i < digits; i++, value = Math.floor(value / 64)) out.push(value % 64);
+  };
+
+  let prev = emptyField();
+  let repeatAt = -1;
+  let prevComment = "";
+  pages.forEach((page, index) => {
+    if (page.board.some((row) => row.length !== FUMEN_COLS)) throw new Error(`Fumen boards are ${FUMEN_COLS} wide`);
+    const shift = FUMEN_ROWS - page.board.length;
+    if (page.board.slice(0, Math.max(0, -shift)).some((row) => row.some((c) => c !== CELL.EMPTY))) {
+      throw new Error(`Fumen boards are ${FUMEN_ROWS} rows high`);
+    }
+    const field = emptyField();
+    page.board.forEach((row, y) => {
+      if (y + shift >= 0) field[y + shift] = row.map(toFumenCell);
+    });
+    field[FUMEN_ROWS] = prev[FUMEN_ROWS].slice();
+
+    // field: runs of equal differences from the last page's field
+    const runs: number[] = [];
+    let changed = false;
+    let run = -1;
+    let diff = field[0][0] - prev[0][0] + 8;
+    for (let i = 0; i < FIELD_BLOCKS; i++) {
+      const y = Math.floor(i / FUMEN_COLS);
+      const d = field[y][i % FUMEN_COLS] - prev[y][i % FUMEN_COLS] + 8;
+      if (d !== diff) {
+        runs.push(diff * FIELD_BLOCKS + run);
+        run = 0;
+        diff = d;
+        changed = true;
+      } else {
+        run++;
+      }
+    }
+    runs.push(diff * FIELD_BLOCKS + run);
+    if (changed) {
+      runs.forEach((v) => push(v, 2));
+      repeatAt = -1;
+    } else if (repeatAt < 0 || out[repeatAt] === 63) {
+      runs.forEach((v) => push(v, 2));
+      out.push(0);
+      repeatAt = out.length - 1;
+    } else {
+      out[repeatAt]++;
+    }
+
+    // action
+    const piece = page.piece && { ...page.piece, y: page.piece.y + shift };
+    const [code, rotCode, position] = piece ? pieceToFumen(piece) : [0, 0, 0];
+    const comment = page.comment !== prevComment ? page.comment : null;
+    let action = page.lock ? 0 : 1;
+    action = action * 2 + (comment !== null ? 1 : 0);
+    action = action * 2 + (index === 0 ? 1 : 0);
+    action = action * 2; // mirror
+    action = action * 2; // rise
+    action = ((action * FIELD_BLOCKS + position) * 4 + rotCode) * 8 + code;
+    push(action, 3);
+
+    if (comment !== null) {
+      const escaped = escape(comment).slice(0, 4095);
+      push(escaped.length, 2);
+      for (let i = 0; i < escaped.length; i += 4) {
+        let v = 0;
+        for (let j = 0; j < 4 && i + j < escaped.length; j++) {
+          v += COMMENT_CHARS.indexOf(escaped[i + j]) * COMMENT_BASE ** j;
+        }
+        push(v, 5);
+      }
+      prevComment = comment;
+    }
+
+    prev = page.lock ? lockPage(field, piece, false, false) : field;
+  });
+
+  // fumen breaks its data with a "?" after the first 42 characters and every 47 after
+  const data = out.map((v) => TABLE[v]).join("");
+  const chunks = [data.slice(0, 42)];
+  for (let i = 42; i < data.length; i += 47) chunks.push(data.slice(i, i + 47));
+  return "v115@" + chunks.join("?");
+}
+
+// Hold, current piece and queue from a quiz comment such as "#Q=[S](T)IOJLZ".
+export function fumenQuiz(comment: string): { hold: ShapeKey | null; queue: ShapeKey[] } | null {
+  const m = /^#Q=\[([A-Z]?)\]\(([A-Z]?)\)([A-Z]*)/.exec(comment.trim());
+  if (!m) return null;
+  const keys = (s: string) => [...s].filter((k) => (SHAPE_KEYS as string[]).includes(k));
+  return { hold: keys(m[1])[0] ?? null, queue: [...keys(m[2]), ...keys(m[3])] };
+}
+
+export function fumenQuizComment(hold: ShapeKey | null, queue: ShapeKey[]): string {
+  const bad = [hold, ...queue].find((k) => k !== null && !(SHAPE_KEYS as string[]).includes(k));
+  if (bad) throw new Error(`Piece "${bad}" can't be stored in a fumen`);
+  return `#Q=[${hold ?? ""}](${queue[0] ?? ""})${queue.slice(1).join("")}`;
+}
@@ -0,0 +1,83 @@
+import { CELL, type BoardCell, type GameParams, type GameState, type GarbageBatch } from "./types";
+import { RNG } from "./rng";
+import { duration } from "./timing";
+
+// Hole RNG is kept apart from the piece RNG so attacks never change the queue.
+export function makeGarbageRng(seed: number): number {
+  return new RNG((seed ^ 0x5bd1e995) >>> 0).seed;
+}
+
+// Queue an attack from the opponent; it waits garbageDelayMs before it can rise.
+export function receiveGarbage(state: GameState, lines: number) {
+  if (lines > 0 && !state.gameOver) state.garbage.push({ lines, timerMs: 0, hole: -1 });
+}
+
+export function pendingGarbage(state: GameState): number {
+  return state.garbage.reduce((n, b) => n + b.lines, 0);
+}
+
+// Outgoing lines cancel incoming garbage oldest first; returns what is left to send.
+export function cancelGarbage(state: GameState, lines: number): number {
+  while (lines > 0 && state.garbage.length) {
+    const batch = state.garbage[0];
+    const n = Math.min(lines, batch.lines);
+    batch.lines -= n;
+    lines -= n;
+    if (!batch.lines) state.garbage.shift();
+  }
+  return lines;
+}
+
+// dt in timer units, see timing.ts
+export function tickGarbage(state: GameState, dt: number) {
+  for (const batch of state.garbage) batch.timerMs += dt;
+}
+
+export function garbageReady(batch: GarbageBatch, params: GameParams): boolean {
+  return batch.timerMs >= duration(params, params.garbageDelayMs);
+}
+
+// Raise the ready garbage (up to garbageCap rows) under the stack.
+// Returns false if that pushed blocks off the top of the board.
+export function applyGarbage(state: GameState, params: GameParams): boolean {
+  let budget = params.garbageCap;
+  let risen = 0;
+  let fits = true;
+  while (budget > 0 && state.garbage.length && garbageReady(state.garbage[0], params)) {
+    const batch = state.garbage[0];
+    const n = Math.min(budget, batch.lines);
+    const rng = new RNG(state.garbageRng);
+    for (let i = 0; i < n; i++) {
+      // a clean attack keeps its column, even when the cap splits it over several locks
+      const hole = params.garbagePattern === "clean" && batch.hole >= 0 ? batch.hole : pickHole(state, params, rng);
+      if (!pushGarbageRow(state, hole)) fits = false;
+      batch.hole = hole;
+      state.garbageHole = hole;
+    }
+    state.garbageRng = rng.seed;
+    batch.lines -= n;
+    budget -= n;
+    risen += n;
+    if (!batch.lines) state.garbage.shift();
+  }
+  if (risen) state.events.push({ type: "garbage", lines: risen });
+  return fits;
+}
+
+function pickHole(state: GameState, params: GameParams, rng: RNG): number {
+  if (params.garbagePattern !== "cheese" || state.garbageHole < 0 || state.boardW < 2) {
+    return Math.floor(rng.next() * state.boardW);
+  }
+  // any column except the one above
+  const hole = Math.floor(rng.next() * (state.boardW - 1));
+  return hole >= state.garbageHole ? hole + 1 : hole;
+}
+
+// Shift the board up one row and add a garbage row with one hole at the bottom.
+function pushGarbageRow(state: GameState, hole: number): boolean {
+  const top = state.board.shift() as BoardCell[];
+  const row = Array<BoardCell>(state.boardW).fill(CELL.GARBAGE);
+  row[hole] = CELL.EMPTY;
+  state.board.push(row);
+  return top.every((c) => c === CELL.EMPTY);
+}
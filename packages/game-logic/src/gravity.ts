@@ -0,0 +1,35 @@
+// Gravity curves in cells per second. Levels are 0-based throughout.
+
+export const FPS = 60;
+
+// 20G: the piece reaches the floor on the frame it appears, and again after every move.
+export const TWENTY_G = 20 * FPS;
+
+// Guideline marathon seconds per row for levels 1-20,
+// (0.8 - (L - 1) * 0.007) ^ (L - 1) rounded as published.
+export const GUIDELINE_SECONDS_PER_ROW = [
+  1.0, 0.793, 0.6178, 0.47273, 0.3552, 0.262, 0.18968, 0.13473, 0.09388, 0.06415,
+  0.04298, 0.02822, 0.01815, 0.01144, 0.00706, 0.00426, 0.00252, 0.00146, 0.00082, 0.00046,
+];
+
+export function guidelineGravity(level: number): number {
+  const i = Math.min(level, GUIDELINE_SECONDS_PER_ROW.length - 1);
+  return Math.min(TWENTY_G, 1 / GUIDELINE_SECONDS_PER_ROW[i]);
+}
+
+// NES (NTSC) frames per row for levels 0-28; level 29 and up is 1 frame.
+export const NES_FRAMES_PER_ROW = [
+  48, 43, 38, 33, 28, 23, 18, 13, 8, 6,
+  5, 5, 5, 4, 4, 4, 3, 3, 3,
+  2, 2, 2, 2, 2, 2, 2, 2, 2, 2,
+];
+
+// One row every NES_FRAMES_PER_ROW[level] frames, exactly so with frame timing.
+export function nesGravity(level: number): number {
+  const frames = NES_FRAMES_PER_ROW[level] ?? 1;
+  return FPS / frames;
+}
+
+export function isTwentyG(cellsPerSec: number): boolean {
+  return cellsPerSec >= TWENTY_G;
+}
@@ -0,0 +1,42 @@
+import { CELL, type Board, type BoardCell } from "./types";
+import { SHAPE_KEYS, type TetrominoKey } from "./shapes";
+import { cellPiece } from "./pieces";
+
+// Plain-text boards, one line per row, top first:
+//   . or _   empty
+//   IOTJLSZ  tetromino cells
+//   X        garbage
+//   #        solid, and any cell of another piece set
+const CHARS: Record<string, BoardCell> = {
+  ".": CELL.EMPTY,
+  _: CELL.EMPTY,
+  X: CELL.GARBAGE,
+  "#": CELL.SOLID,
+  ...Object.fromEntries(SHAPE_KEYS.map((k) => [k, CELL[k]])),
+};
+
+// Blank lines and surrounding whitespace are ignored; every row has to be as
+// wide as the first.
+export function parseGrid(text: string): Board {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  const width = lines[0]?.length ?? 0;
+  return lines.map((line, y) => {
+    if (line.length !== width) throw new Error(`Grid row ${y} is ${line.length} wide, expected ${width}`);
+    return [...line].map((ch) => {
+      const code = CHARS[ch.toUpperCase()];
+      if (code === undefined) throw new Error(`Unknown grid cell "${ch}" in row ${y}`);
+      return code;
+    });
+  });
+}
+
+function gridChar(code: BoardCell): string {
+  if (code === CELL.EMPTY) return ".";
+  if (code === CELL.GARBAGE) return "X";
+  const piece = cellPiece(code);
+  return piece && (SHAPE_KEYS as string[]).includes(piece) ? (piece as TetrominoKey) : "#";
+}
+
+export function formatGrid(board: Board): string {
+  return board.map((row) => row.map(gridChar).join("")).join("\n");
+}
@@ -1,8 +1,26 @@
 export * from "./shapes";
 export * from "./types";
 export * from "./params";
+export * from "./gravity";
+export * from "./timing";
+export * from "./presets";
+export * from "./modes";
 export * from "./rng";
 export * from "./bag";
+export * from "./randomizer";
+export * from "./pieces";
 export * from "./board";
 export * from "./srs";
+export * from "./tspin";
+export * from "./scoring";
+export * from "./attack";
+export * from "./garbage";
 export * from "./logic";
+export * from "./bot";
+export * from "./finesse";
+export * from "./stats";
+export * from "./fumen";
+export * from "./grid";
+export * from "./puzzle";
+export * from "./replay";
+export * from "./snapshot";
@@ -1,73 +1,173 @@
-import { type GameParams, type GameState, type Inputs, type Piece, HIDDEN_ROWS } from "./types";
+import {
+  type Board, type GameEvent, type GameParams, type GamePhase, type GameState, type Inputs, type Piece, type RotateDir,
+  type TopOutReason,
+} from "./types";
 import { DEFAULT_PARAMS } from "./params";
-import { RNG } from "./rng";
-import { generateBag } from "./bag";
+import { makeRandomizerState } from "./randomizer";
 import { makeBoard, collides, lockToBoard, fullRows, clearRows, shapeCells } from "./board";
+import { tryRotateWithKicks } from "./srs";
+import { detectTSpin } from "./tspin";
+import { isDifficultClear } from "./scoring";
+import { isTwentyG } from "./gravity";
+import { applyGarbage, cancelGarbage, makeGarbageRng, tickGarbage } from "./garbage";
+import { attackFor } from "./attack";
+import { finishGame, reachedLineGoal, timeUp } from "./modes";
+import { cellUnit, duration, fallStep, stepTime } from "./timing";
 import type { ShapeKey } from "./shapes";
+import { pieceDef } from "./pieces";
 
-export function createGame(boardW = 10, boardH = 20, seed = 1234): GameState {
-  const totalH = boardH + HIDDEN_ROWS;
+// DAS timer of a direction whose key is up; a press starts the charge at 0.
+const DAS_UP = -1;
+
+// boardW x boardH is the visible field; params.hiddenRows more rows sit above it.
+// `rows` fill the bottom of the board before the first piece spawns.
+export function createGame(
+  boardW = 10, boardH = 20, seed = 1234, params: GameParams = DEFAULT_PARAMS, rows: Board = []
+): GameState {
+  const totalH = boardH + params.hiddenRows;
   const state: GameState = {
     gameOver: false,
     tick: 0,
     boardW, 
     boardH: totalH,
-    board: makeBoard(boardW, totalH),
+    hiddenRows: params.hiddenRows,
+    board: [...makeBoard(boardW, totalH - rows.length), ...rows.map((row) => row.slice())],
     level: 0,
     lines: 0,
     score: 0,
+    combo: -1,
+    b2b: -1,
     active: null,
     hold: null,
     canHold: true,
     next: [],
     fallAccum: 0,
     lockTimerMs: 0,
+    lockResets: 0,
+    lowestY: 0,
+    phase: "falling",
+    phaseTimerMs: 0,
     clearingRows: null,
-    dasLeftMs: 0,
-    dasRightMs: 0,
+    pendingRot: 0,
+    pendingHold: false,
+    lastMove: null,
+    lastKick: -1,
+    lastClear: null,
+    events: [],
+    elapsedMs: 0,
+    result: null,
+    dasLeftMs: DAS_UP,
+    dasRightMs: DAS_UP,
     arrLeftMs: 0,
     arrRightMs: 0,
+    shiftDir: 0,
+    dasCutTimerMs: 0,
+    garbage: [],
+    garbageRng: makeGarbageRng(seed),
+    garbageHole: -1,
     seed,
+    rand: makeRandomizerState(seed),
   };
-  refillNext(state);
-  spawnNext(state);
+  spawnNext(state, params);
+  settle(state, params);
   return state;
 }
 
-function refillNext(state: GameState) {
-  const rng = new RNG(state.seed);
-  // advance RNG based on how many bags already used
-  const usedBags = Math.floor(state.next.length / 7);
-  for (let i = 0; i < usedBags; i++) rng.next(); // optional; or store rng in state
-  // simpler: store rng in state (better):
+// Keep at least a full bag's worth of previews queued, or whatever is left of a
+// sequence that runs out.
+export function ensureNext(state: GameState, params: GameParams = DEFAULT_PARAMS) {
+  while (state.next.length < 7) {
+    const piece = params.randomizer.next(state.rand, params.pieceSet);
+    if (!piece) break;
+    state.next.push(piece);
+  }
+}
+
+// The part of the queue the player gets to see.
+export function previewQueue(state: GameState, params: GameParams = DEFAULT_PARAMS): ShapeKey[] {
+  const n = Math.max(0, Math.min(6, params.previewCount));
+  return state.next.slice(0, n);
 }
 
-export function ensureNext(state: GameState) {
-  // Better: keep RNG in closure or state. Here, we store it in state by packing in seed.
-  // For simplicity, append a fresh 7-bag if queue < 7.
-  if (state.next.length < 7) {
-    const rng = new RNG(state.seed ^= 0x9e3779b9); // mutate seed deterministically
-    state.next.push(...generateBag(rng));
+export function spawnNext(state: GameState, params: GameParams = DEFAULT_PARAMS) {
+  ensureNext(state, params);
+  const type = state.next.shift();
+  if (!type) {
+    finishGame(state, params, "outOfPieces");
+    return;
   }
+  spawnPiece(state, type, params);
+  state.canHold = true;
 }
 
-export function spawnNext(state: GameState) {
-  ensureNext(state);
-  const type = state.next.shift() as ShapeKey;
+// Where a piece of this type appears: its top cells on params.spawnRow, its left
+// cells on params.spawnCol (or centered), moved by the piece's own spawn offset.
+export function spawnPosition(state: GameState, type: ShapeKey, params: GameParams = DEFAULT_PARAMS): Piece {
   const piece: Piece = { type, x: 0, y: 0, rot: 0 };
-  // center horizontally
-  const width = pieceWidth(piece);
-  piece.x = Math.floor((state.boardW - width) / 2);
-  piece.y = -spawnOffsetTop(piece); // allow some negative y spawn
-
-  if (collides(state, piece)) {
-    state.active = null;
-    state.gameOver = true;        // ← NEW
-    return;
+  const [dx, dy] = pieceDef(type).spawn ?? [0, 0];
+  const left = params.spawnCol ?? Math.floor((state.boardW - pieceWidth(piece)) / 2);
+  piece.x = left + dx;
+  piece.y = state.hiddenRows + params.spawnRow - spawnOffsetTop(piece) + dy; // may start above the board
+  return piece;
+}
+
+function spawnPiece(state: GameState, type: ShapeKey, params: GameParams) {
+  const piece = spawnPosition(state, type, params);
+  // "raise" looks for room higher up, as long as the piece stays on the board
+  if (params.blockOut === "raise") {
+    while (collides(state, piece) && piece.y + spawnOffsetTop(piece) > 0) piece.y--;
   }
+  if (collides(state, piece) && topOut(state, "blockOut", params)) return;
   state.active = piece;
   state.lockTimerMs = 0;
-  state.canHold = true;
+  state.lockResets = 0;
+  state.lowestY = piece.y;
+  state.lastMove = null;
+  state.lastKick = -1;
+  state.dasCutTimerMs = duration(params, params.dasCutMs);
+  state.events.push({ type: "spawn", piece: type });
+}
+
+// Swap the active piece into the hold slot; the first hold pulls from the queue.
+function tryHold(state: GameState, params: GameParams) {
+  if (!state.active || params.holdMode === "disabled" || !state.canHold) return;
+  const held = state.hold;
+  if (!held) {
+    ensureNext(state, params);
+    if (!state.next.length) return; // nothing left to swap in
+  }
+  state.hold = state.active.type;
+  state.events.push({ type: "hold", piece: state.hold, swapped: held });
+  if (held) {
+    spawnPiece(state, held, params);
+  } else {
+    spawnPiece(state, state.next.shift() as ShapeKey, params);
+  }
+  state.fallAccum = 0;
+  state.canHold = params.holdMode === "infinite";
+  settle(state, params);
+}
+
+// Topping out ends the game, unless the mode lets play go on over a wiped stack.
+// Returns true if the game ended.
+function topOut(state: GameState, reason: TopOutReason, params: GameParams): boolean {
+  state.events.push({ type: "topOut", reason });
+  if (params.mode.topOut) {
+    finishGame(state, params, "topOut");
+    return true;
+  }
+  state.board = makeBoard(state.boardW, state.boardH);
+  state.garbage = [];
+  return false;
+}
+
+// Cells above the board are lost, so they always lock out; the rest is up to the rule.
+function lockOut(state: GameState, rows: number[], params: GameParams): boolean {
+  if (rows.some((y) => y < 0)) return true;
+  const hidden = (y: number) => y < state.hiddenRows;
+  if (params.lockOut === "buffer") return rows.every(hidden);
+  if (params.lockOut === "any") return rows.some(hidden);
+  return false;
 }
 
 function pieceWidth(p: Piece) {
@@ -76,156 +176,342 @@ function pieceWidth(p: Piece) {
   return maxX + 1;
 }
 function spawnOffsetTop(p: Piece) {
-  // how many rows extend above 0; simplest 0
-  return 0;
+  // empty rows at the top of the SRS box (e.g. the I piece sits on its second row)
+  let minY = Infinity;
+  for (const [, y] of shapeCells(p.type, p.rot)) minY = Math.min(minY, y);
+  return minY;
 }
 
-function tryMove(state: GameState, dx: number, dy: number) {
+function tryMove(state: GameState, dx: number, dy: number, emit = true) {
   if (!state.active) return false;
   const n = { ...state.active, x: state.active.x + dx, y: state.active.y + dy };
   if (collides(state, n)) return false;
   state.active = n;
+  state.lastMove = "move";
+  if (emit) state.events.push({ type: "move", dx, dy });
   return true;
 }
 
-function tryRotate(state: GameState, dir: 1 | -1) {
-  if (!state.active) return;
-  const rot = (((state.active.rot + dir) % 4) + 4) % 4;
-  const n = { ...state.active, rot };
-  if (!collides(state, n)) { state.active = n; return; }
-  // minimal kicks
-  const kicks: Array<[number, number]> = [[1,0],[-1,0],[0,-1],[0,1]];
-  for (const [dx, dy] of kicks) {
-    const k = { ...n, x: n.x + dx, y: n.y + dy };
-    if (!collides(state, k)) { state.active = k; return; }
+// Player shift: a successful move may restart the lock timer.
+function shift(state: GameState, dx: number, params: GameParams) {
+  if (!tryMove(state, dx, 0)) return false;
+  lockResetOnMove(state, params);
+  settle(state, params);
+  return true;
+}
+
+// At 20G the piece is always on the floor: drop it there after a spawn, shift or rotation.
+function settle(state: GameState, params: GameParams) {
+  if (!state.active || !isTwentyG(params.gravityCellsPerSec(state.level))) return;
+  while (tryMove(state, 0, +1, false)) lockResetOnFall(state, params);
+}
+
+function lockResetOnMove(state: GameState, params: GameParams) {
+  if (params.lockReset === "infinite") {
+    state.lockTimerMs = 0;
+  } else if (params.lockReset === "extended" && state.lockTimerMs > 0 && state.lockResets < params.maxLockResets) {
+    state.lockTimerMs = 0;
+    state.lockResets++;
+  }
+}
+
+// The piece fell a row (gravity or soft drop).
+function lockResetOnFall(state: GameState, params: GameParams) {
+  if (params.lockReset === "classic" || !state.active) return;
+  state.lockTimerMs = 0;
+  if (state.active.y > state.lowestY) {
+    state.lowestY = state.active.y;
+    state.lockResets = 0;
   }
 }
 
+function tryRotate(state: GameState, dir: RotateDir, params: GameParams) {
+  const p = state.active;
+  if (!p) return;
+  const r = tryRotateWithKicks(
+    (rot, dx, dy) => !collides(state, { ...p, rot, x: p.x + dx, y: p.y + dy }),
+    p.type, p.rot, dir
+  );
+  if (!r.ok) return;
+  state.active = { ...p, rot: r.rot, x: p.x + r.dx, y: p.y + r.dy };
+  state.lastMove = "rotate";
+  state.lastKick = dir === 2 ? -1 : r.kick; // 180 kicks have no TST / fin test
+  state.events.push({ type: "rotate", dir, kick: r.kick });
+  lockResetOnMove(state, params);
+  settle(state, params);
+}
+
 function grounded(state: GameState): boolean {
   if (!state.active) return false;
   const n = { ...state.active, y: state.active.y + 1 };
   return collides(state, n);
 }
 
-function lockAndClear(state: GameState, params: GameParams) {
+function lockAndClear(state: GameState, params: GameParams, inputs: Inputs) {
   if (!state.active) return;
   const cells = shapeCells(state.active.type, state.active.rot);
+  const tspin = detectTSpin(state, state.active);
+  const piece = state.active.type;
   lockToBoard(state, state.active);
+  state.events.push({ type: "lock", piece: state.active });
 
-  // If any locked cell is above the top (gy < 0), top-out immediately
-  for (const [cx, cy] of cells) {
-    const gy = state.active.y + cy;
-    if (gy < 0) {
-      state.active = null;
-      state.gameOver = true;      
-      return;                     
-    }
-  }
-
+  const lockedOut = lockOut(state, cells.map(([, cy]) => state.active!.y + cy), params);
   state.active = null;
+  if (lockedOut && topOut(state, "lockOut", params)) return;
 
   const rows = fullRows(state);
-  if (rows.length) {
-    clearRows(state, rows);
-    state.lines += rows.length;
-    state.score += params.lineClearScore(rows.length, state.level);
-    state.level = params.levelUp(state.lines);
+  const lines = rows.length;
+
+  // Chains: any clear extends the combo; difficult clears extend B2B, easy
+  // clears break it, and a lock that clears nothing leaves it alone.
+  state.combo = lines ? state.combo + 1 : -1;
+  const difficult = isDifficultClear({ lines, tspin });
+  const backToBack = difficult && state.b2b >= 0;
+  if (difficult) state.b2b++;
+  else if (lines) state.b2b = -1;
+
+  const clear = {
+    piece, lines, tspin,
+    combo: state.combo,
+    backToBack,
+    perfectClear: lines > 0 && state.board.every((row, y) => rows.includes(y) || row.every((c) => c === 0)),
+  };
+  state.lastClear = clear;
+  if (lines || tspin !== "none") state.events.push({ type: "clear", clear, rows });
+  state.score += params.lineClearScore(clear, state.level);
+  if (lines) {
+    state.lines += lines;
+    const level = params.levelUp(state.lines);
+    if (level !== state.level) state.events.push({ type: "levelUp", level });
+    state.level = level;
+
+    // Clearing cancels incoming garbage first; the rest goes to the opponent
+    const attack = cancelGarbage(state, attackFor(params.attackTable, clear));
+    if (attack) state.events.push({ type: "attack", lines: attack });
+  } else if (!applyGarbage(state, params) && topOut(state, "garbageOut", params)) {
+    // garbage only rises after a lock that cleared nothing
+    return;
   }
 
-  spawnNext(state);           
+  if (reachedLineGoal(state, params.mode)) {
+    finishGame(state, params, "goal");
+    return;
+  }
+
+  if (lines && duration(params, params.lineClearDelayMs) > 0) {
+    enterPhase(state, "lineClear");
+    state.clearingRows = rows;
+    return;
+  }
+  if (lines) clearRows(state, rows);
+  endOfPiece(state, params, inputs);
 }
 
-export function step(state: GameState, inputs: Inputs, dtMs: number, params: GameParams = DEFAULT_PARAMS) {
+function enterPhase(state: GameState, phase: GamePhase) {
+  state.phase = phase;
+  state.phaseTimerMs = 0;
+}
+
+// After the rows (if any) are gone: wait out ARE, or spawn right away.
+function endOfPiece(state: GameState, params: GameParams, inputs: Inputs) {
+  if (duration(params, params.areMs) > 0) {
+    enterPhase(state, "are");
+    return;
+  }
+  enterPhase(state, "falling");
+  spawnWithPending(state, params, inputs);
+}
+
+// Rotation still held from an earlier tick (a press this tick went to the old piece).
+function heldRotation(inputs: Inputs, params: GameParams): RotateDir | 0 {
+  if (inputs.heldCW && !inputs.rotCW) return 1;
+  if (inputs.heldCCW && !inputs.rotCCW) return -1;
+  if (inputs.held180 && !inputs.rot180 && params.rotate180) return 2;
+  return 0;
+}
+
+// Spawn, then apply any rotation / hold pressed while no piece was in play, or
+// held through the spawn when IRS / IHS are on.
+function spawnWithPending(state: GameState, params: GameParams, inputs: Inputs) {
+  spawnNext(state, params);
+  const hold = state.pendingHold || (params.initialHold && inputs.heldHold && !inputs.hold);
+  const rot = state.pendingRot || (params.initialRotation ? heldRotation(inputs, params) : 0);
+  if (hold) tryHold(state, params);
+  if (rot) tryRotate(state, rot, params);
+  state.pendingHold = false;
+  state.pendingRot = 0;
+  settle(state, params);
+}
+
+// Line-clear delay and ARE: only timers run; presses are remembered for the spawn.
+function stepDelay(state: GameState, inputs: Inputs, dt: number, params: GameParams) {
+  if (inputs.hold) state.pendingHold = true;
+  if (inputs.rotCW) state.pendingRot = 1;
+  if (inputs.rotCCW) state.pendingRot = -1;
+  if (inputs.rot180 && params.rotate180) state.pendingRot = 2;
+
+  // DAS keeps charging so the next piece can auto-shift immediately
+  if (params.preserveDas) handleDasArr(state, inputs, dt, params);
+  else resetDas(state);
+
+  state.phaseTimerMs += dt;
+  if (state.phase === "lineClear" && state.phaseTimerMs >= duration(params, params.lineClearDelayMs)) {
+    clearRows(state, state.clearingRows ?? []);
+    state.clearingRows = null;
+    endOfPiece(state, params, inputs);
+  } else if (state.phase === "are" && state.phaseTimerMs >= duration(params, params.areMs)) {
+    enterPhase(state, "falling");
+    spawnWithPending(state, params, inputs);
+  }
+}
+
+// Advances one tick and returns the events it produced (also left on state.events).
+// With frame timing every call is one frame and dtMs is ignored.
+export function step(state: GameState, inputs: Inputs, dtMs: number, params: GameParams = DEFAULT_PARAMS): GameEvent[] {
   state.tick++;
+  state.events = [];
+  if (state.gameOver) return state.events;
+
+  const dt = stepTime(params, dtMs);
+  state.elapsedMs += dt;
+  if (timeUp(state, params)) {
+    state.elapsedMs = duration(params, params.mode.timeLimitMs);
+    finishGame(state, params, "time");
+    return state.events;
+  }
+
+  tickGarbage(state, dt);
+
+  if (state.phase !== "falling") {
+    stepDelay(state, inputs, dt, params);
+    return state.events;
+  }
+
+  settle(state, params);
 
   // consume one-shot inputs
-  if (inputs.rotCW)  tryRotate(state, +1);
-  if (inputs.rotCCW) tryRotate(state, -1);
+  if (inputs.hold)   tryHold(state, params);
+  if (inputs.rotCW)  tryRotate(state, +1, params);
+  if (inputs.rotCCW) tryRotate(state, -1, params);
+  if (inputs.rot180 && params.rotate180) tryRotate(state, 2, params);
 
   // DAS/ARR (left/right)
-  handleDasArr(state, inputs, dtMs, params);
+  handleDasArr(state, inputs, dt, params);
 
   // HARD DROP: descend to the floor immediately, +2 points per cell
   if (inputs.hardDrop && state.active) {
     let hardDropCells = 0;
     while (!grounded(state)) {
-      if (!tryMove(state, 0, +1)) break;
+      if (!tryMove(state, 0, +1, false)) break;
+      hardDropCells++;
     }
-    lockAndClear(state, params);
-    return;
+    state.score += hardDropCells * params.hardDropPoints;
+    state.events.push({ type: "hardDrop", cells: hardDropCells });
+    lockAndClear(state, params, inputs);
+    return state.events;
   }
 
   // GRAVITY (+ optional SOFT DROP acceleration)
-  const g = params.gravityCellsPerSec(state.level) + (inputs.softDrop ? params.softDropBonus : 0);
-  state.fallAccum += (g * dtMs) / 1000;
+  const g = fallSpeed(state, inputs, params);
+  state.fallAccum += g === Infinity ? Infinity : fallStep(params, g, dtMs);
+  const cell = cellUnit(params);
 
-  while (state.fallAccum >= 1 && state.active) {
+  while (state.fallAccum >= cell && state.active) {
     if (!tryMove(state, 0, +1)) {
-      // on ground: start/advance lock delay
-      state.lockTimerMs += dtMs;
-      if (state.lockTimerMs >= params.lockDelayMs) {
-        lockAndClear(state, params);
-        state.fallAccum = 0;
-        return;
-      }
+      state.fallAccum = 0; // resting: don't bank gravity for when it slides off
       break;
-    } else {
-      state.lockTimerMs = 0; 
     }
-    state.fallAccum -= 1;
+    lockResetOnFall(state, params);
+    if (inputs.softDrop) state.score += params.softDropPoints;
+    state.fallAccum -= cell;
+  }
+
+  // LOCK DELAY: advances on every tick spent resting on the stack
+  if (state.active && grounded(state)) {
+    state.lockTimerMs += dt;
+    const outOfResets = params.lockReset === "extended" && state.lockResets >= params.maxLockResets;
+    if (state.lockTimerMs >= duration(params, params.lockDelayMs) || outOfResets) {
+      lockAndClear(state, params, inputs);
+      state.fallAccum = 0;
+      return state.events;
+    }
   }
 
   // Respawn (your "R") — just spawn a new piece, ignoring current
   if (inputs.respawn) {
-    spawnNext(state);
+    spawnNext(state, params);
   }
+  return state.events;
 }
 
-function handleDasArr(state: GameState, inputs: Inputs, dtMs: number, params: GameParams) {
-  if (!state.active) return;
+// Cells/sec: soft drop multiplies gravity by softDropFactor, but always adds at
+// least softDropBonus. Infinity falls until the piece lands.
+function fallSpeed(state: GameState, inputs: Inputs, params: GameParams): number {
+  const gravity = params.gravityCellsPerSec(state.level);
+  if (!inputs.softDrop) return gravity;
+  if (params.softDropFactor === Infinity) return Infinity;
+  return Math.max(gravity * params.softDropFactor, gravity + params.softDropBonus);
+}
 
-  // Left
-  if (inputs.left && !inputs.right) {
-    if (state.dasLeftMs === 0) {
-      tryMove(state, -1, 0);
-      state.dasLeftMs = 1; // started
-      state.arrLeftMs = 0;
-    } else {
-      state.dasLeftMs += dtMs;
-      if (state.dasLeftMs >= params.dasMs) {
-        state.arrLeftMs += dtMs;
-        const stepEvery = Math.max(1, params.arrMs);
-        while (state.arrLeftMs >= stepEvery) {
-          if (!tryMove(state, -1, 0)) break;
-          state.arrLeftMs -= stepEvery;
-        }
-      }
-    }
-    // reset opposite
-    state.dasRightMs = 0; state.arrRightMs = 0;
-  }
-  // Right
-  else if (inputs.right && !inputs.left) {
-    if (state.dasRightMs === 0) {
-      tryMove(state, +1, 0);
-      state.dasRightMs = 1;
-      state.arrRightMs = 0;
-    } else {
-      state.dasRightMs += dtMs;
-      if (state.dasRightMs >= params.dasMs) {
-        state.arrRightMs += dtMs;
-        const stepEvery = Math.max(1, params.arrMs);
-        while (state.arrRightMs >= stepEvery) {
-          if (!tryMove(state, +1, 0)) break;
-          state.arrRightMs -= stepEvery;
-        }
-      }
-    }
-    // reset opposite
-    state.dasLeftMs = 0; state.arrLeftMs = 0;
-  } else {
-    // neither or both held: reset both
-    state.dasLeftMs = 0; state.arrLeftMs = 0;
-    state.dasRightMs = 0; state.arrRightMs = 0;
+// Runs without an active piece too (during delays) so DAS charge carries over.
+function handleDasArr(state: GameState, inputs: Inputs, dt: number, params: GameParams) {
+  const dir = shiftDirection(state, inputs, params);
+  state.shiftDir = dir;
+  for (const d of [-1, 1] as const) {
+    if (d === dir) continue;
+    const [das, arr] = dasTimers(d);
+    // a direction held but overruled restarts its charge, but can't count as a new press
+    state[das] = dir && params.lastPressedWins && (d < 0 ? inputs.left : inputs.right) ? 0 : DAS_UP;
+    state[arr] = 0;
+  }
+  if (dir) autoShift(state, dir, dt, params);
+  // counted down after the check, so an N-tick cut holds back the piece's first N ticks
+  state.dasCutTimerMs = Math.max(0, state.dasCutTimerMs - dt);
+}
+
+// Charge is dropped during delays; the direction held at spawn counts as a new press.
+function resetDas(state: GameState) {
+  state.dasLeftMs = DAS_UP; state.arrLeftMs = 0;
+  state.dasRightMs = DAS_UP; state.arrRightMs = 0;
+  state.shiftDir = 0;
+}
+
+const dasTimers = (dir: -1 | 1) =>
+  dir < 0 ? (["dasLeftMs", "arrLeftMs"] as const) : (["dasRightMs", "arrRightMs"] as const);
+
+// One direction held on its own shifts that way. With both held, the newer press
+// wins if params.lastPressedWins, and neither does otherwise.
+function shiftDirection(state: GameState, inputs: Inputs, params: GameParams): -1 | 0 | 1 {
+  if (!inputs.left !== !inputs.right) return inputs.left ? -1 : 1;
+  if (!inputs.left || !params.lastPressedWins) return 0;
+  const newLeft = state.dasLeftMs === DAS_UP;
+  const newRight = state.dasRightMs === DAS_UP;
+  if (newLeft !== newRight) return newLeft ? -1 : 1;
+  return newLeft ? 0 : state.shiftDir; // pressed together: neither; otherwise the last winner
+}
+
+function autoShift(state: GameState, dir: -1 | 1, dt: number, params: GameParams) {
+  const [das, arr] = dasTimers(dir);
+  if (state[das] === DAS_UP) {
+    shift(state, dir, params);
+    state[das] = 0;
+    state[arr] = 0;
+    return;
+  }
+  state[das] += dt;
+  if (state[das] < duration(params, params.dasMs)) return;
+  if (state.dasCutTimerMs > 0) {
+    state[arr] = 0; // charged, but held back after a spawn
+    return;
+  }
+  if (params.arrMs === 0) {
+    while (shift(state, dir, params)); // straight to the wall
+    return;
+  }
+  state[arr] += dt;
+  const stepEvery = Math.max(1, duration(params, params.arrMs));
+  while (state[arr] >= stepEvery) {
+    if (!shift(state, dir, params)) break;
+    state[arr] -= stepEvery;
   }
 }
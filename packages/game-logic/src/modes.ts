@@ -0,0 +1,104 @@
+import type { GameEnd, GameMode, GameParams, GameState } from "./types";
+import { duration, timerToMs } from "./timing";
+
+export type GameModeName = "marathon" | "sprint" | "ultra" | "zen";
+
+// Play to 150 lines, ranked by score.
+export const MARATHON: GameMode = {
+  name: "marathon",
+  lineGoal: 150,
+  timeLimitMs: 0,
+  topOut: true,
+  ranking: "score",
+};
+
+// 40 lines as fast as possible.
+export const SPRINT: GameMode = {
+  name: "sprint",
+  lineGoal: 40,
+  timeLimitMs: 0,
+  topOut: true,
+  ranking: "time",
+};
+
+// Score attack against a two minute clock.
+export const ULTRA: GameMode = {
+  name: "ultra",
+  lineGoal: 0,
+  timeLimitMs: 2 * 60 * 1000,
+  topOut: true,
+  ranking: "score",
+};
+
+// No goal, no clock, no game over.
+export const ZEN: GameMode = {
+  name: "zen",
+  lineGoal: 0,
+  timeLimitMs: 0,
+  topOut: false,
+  ranking: "score",
+};
+
+// Versus: no goal or clock, the last board standing wins. Not offered as a solo mode.
+export const VERSUS: GameMode = {
+  name: "versus",
+  lineGoal: 0,
+  timeLimitMs: 0,
+  topOut: true,
+  ranking: "score",
+};
+
+// Puzzles: a set board and queue, judged by the puzzle's own goal. The game
+// ends when the queue runs out.
+export const PUZZLE: GameMode = {
+  name: "puzzle",
+  lineGoal: 0,
+  timeLimitMs: 0,
+  topOut: true,
+  ranking: "time",
+};
+
+export const GAME_MODES: Record<GameModeName, GameMode> = {
+  marathon: MARATHON,
+  sprint: SPRINT,
+  ultra: ULTRA,
+  zen: ZEN,
+};
+
+export const GAME_MODE_NAMES = Object.keys(GAME_MODES) as GameModeName[];
+
+// Game clock in ms, whatever the timing mode.
+export function gameTimeMs(state: GameState, params: GameParams): number {
+  return timerToMs(params, state.elapsedMs);
+}
+
+// Time left on the clock, or null for modes without a limit.
+export function timeLeftMs(state: GameState, params: GameParams): number | null {
+  const limit = params.mode.timeLimitMs;
+  return limit ? Math.max(0, limit - gameTimeMs(state, params)) : null;
+}
+
+// Compared in timer units so frame-timed games end on the same frame everywhere.
+export function timeUp(state: GameState, params: GameParams): boolean {
+  const limit = params.mode.timeLimitMs;
+  return limit > 0 && state.elapsedMs >= duration(params, limit);
+}
+
+export function reachedLineGoal(state: GameState, mode: GameMode): boolean {
+  return mode.lineGoal > 0 && state.lines >= mode.lineGoal;
+}
+
+// Stop the game and record how it went.
+export function finishGame(state: GameState, params: GameParams, end: GameEnd) {
+  state.gameOver = true;
+  state.active = null;
+  state.result = {
+    mode: params.mode.name,
+    end,
+    timeMs: gameTimeMs(state, params),
+    score: state.score,
+    lines: state.lines,
+    level: state.level,
+  };
+  state.events.push({ type: "finish", result: state.result });
+}
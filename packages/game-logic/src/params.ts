@@ -1,20 +1,60 @@
-import type { GameParams } from "./types";
+import type { BoardRules, GameParams, Handling } from "./types";
+import { BAG_7 } from "./randomizer";
+import { TETROMINOES } from "./pieces";
+import { guidelineScore } from "./scoring";
+import { guidelineGravity } from "./gravity";
+import { MODERN_ATTACK } from "./attack";
+import { MARATHON } from "./modes";
 
 export const DEFAULT_PARAMS: GameParams = {
-  gravityCellsPerSec(level) {
-    // Simple curve; replace with a guideline table later
-    // starts ~1.0 cps and ramps
-    return 1.5 + level * 0.5;
-  },
+  timing: "ms",
+  hiddenRows: 1,
+  spawnRow: -1, // straddling the top edge of the field
+  spawnCol: null,
+  lockOut: "buffer",
+  blockOut: "overlap",
+  gravityCellsPerSec: guidelineGravity,
   lockDelayMs: 500,
+  lockReset: "extended",
+  maxLockResets: 15,
+  lineClearDelayMs: 0,
+  areMs: 0,
   dasMs: 160,
   arrMs: 30, // set to 0 for instant horizontal repeat
+  softDropFactor: 1,
+  dasCutMs: 0,
+  preserveDas: false,
+  lastPressedWins: false,
   softDropBonus: 15,
-  lineClearScore(lines) {
-    return lines * 100;
-  },
+  holdMode: "standard",
+  rotate180: false,
+  initialRotation: false,
+  initialHold: false,
+  previewCount: 0,
+  pieceSet: TETROMINOES,
+  randomizer: BAG_7,
+  softDropPoints: 1,
+  hardDropPoints: 2,
+  lineClearScore: guidelineScore,
   levelUp(total) {
-    // e.g., every 3 lines
-    return Math.floor(total / 3);
+    // guideline fixed goal: every 10 lines
+    return Math.floor(total / 10);
   },
+  garbageDelayMs: 500,
+  garbageCap: 8,
+  garbagePattern: "clean",
+  attackTable: MODERN_ATTACK,
+  mode: MARATHON,
 };
+
+// Just the board layout and top-out part of a rule set.
+export function boardRules(params: GameParams): BoardRules {
+  const { hiddenRows, spawnRow, spawnCol, lockOut, blockOut } = params;
+  return { hiddenRows, spawnRow, spawnCol, lockOut, blockOut };
+}
+
+// Just the player's handling settings.
+export function handlingOf(params: GameParams): Handling {
+  const { dasMs, arrMs, softDropFactor, dasCutMs, preserveDas, lastPressedWins } = params;
+  return { dasMs, arrMs, softDropFactor, dasCutMs, preserveDas, lastPressedWins };
+}
@@ -0,0 +1,112 @@
+import { CELL, FIRST_PIECE_CELL, type BoardCell, type PieceDef, type PieceSet } from "./types";
+import {
+  CENTERS, I_KICKS, JLSTZ_KICKS, KICKS_180, SHAPES, SHAPE_KEYS, type Cell, type ShapeKey, type TetrominoKey,
+} from "./shapes";
+
+export type PieceSetName = "tetromino" | "tromino" | "pentomino";
+
+// Every piece of every defined set, by key, with the board code it locks as.
+const DEFS = new Map<ShapeKey, PieceDef>();
+const CELLS = new Map<ShapeKey, BoardCell>();
+const KEYS_BY_CELL = new Map<BoardCell, ShapeKey>();
+let nextCell = FIRST_PIECE_CELL;
+
+// Registers a set's pieces so the engine can find them by key. A key can only
+// be shared by sets that use the very same PieceDef. Board codes for new pieces
+// are handed out in definition order, so define custom sets in a fixed order
+// if their snapshots need to load elsewhere.
+export function definePieceSet(name: string, pieces: Record<ShapeKey, PieceDef>): PieceSet {
+  for (const [key, def] of Object.entries(pieces)) {
+    const known = DEFS.get(key);
+    if (known === def) continue;
+    if (known) throw new Error(`Piece "${key}" is already defined by another piece set`);
+    const code = (SHAPE_KEYS as ShapeKey[]).includes(key) ? CELL[key as TetrominoKey] : nextCell++;
+    DEFS.set(key, def);
+    CELLS.set(key, code);
+    KEYS_BY_CELL.set(code, key);
+  }
+  return { name, pieces };
+}
+
+export function pieceDef(type: ShapeKey): PieceDef {
+  const def = DEFS.get(type);
+  if (!def) throw new Error(`Unknown piece "${type}"`);
+  return def;
+}
+
+// Board code a piece locks as.
+export function pieceCell(type: ShapeKey): BoardCell {
+  return CELLS.get(type) ?? CELL.SOLID;
+}
+
+// Piece type that produced a cell, or null for empty and special cells.
+export function cellPiece(code: BoardCell): ShapeKey | null {
+  return KEYS_BY_CELL.get(code) ?? null;
+}
+
+// Keys in definition order (bag order).
+export function pieceKeys(set: PieceSet): ShapeKey[] {
+  return Object.keys(set.pieces);
+}
+
+const TETROMINO_COLORS: Record<TetrominoKey, string> = {
+  I: "#00e5ff",
+  O: "#ffd60a",
+  T: "#b14cff",
+  J: "#2f6bff",
+  L: "#ff8c1a",
+  S: "#00ff7f",
+  Z: "#ff3b4e",
+};
+
+// The guideline seven with SRS kicks.
+export const TETROMINOES = definePieceSet(
+  "tetromino",
+  Object.fromEntries(SHAPE_KEYS.map((k): [ShapeKey, PieceDef] => [k, {
+    cells: SHAPES[k],
+    center: CENTERS[k],
+    kicks: k === "I" ? { ...I_KICKS, ...KICKS_180 } : k === "O" ? {} : { ...JLSTZ_KICKS, ...KICKS_180 },
+    color: TETROMINO_COLORS[k],
+  }]))
+);
+
+// Pieces without their own kick research borrow the JLSTZ and 180 tables.
+const BORROWED_KICKS = { ...JLSTZ_KICKS, ...KICKS_180 };
+const piece = (cells: Cell[], center: [number, number], color: string): PieceDef =>
+  ({ cells, center, kicks: BORROWED_KICKS, color });
+
+export const TROMINOES = definePieceSet("tromino", {
+  I3: piece([[0, 1], [1, 1], [2, 1]], [1, 1], "#00e5ff"),
+  L3: piece([[0, 0], [0, 1], [1, 1]], [0.5, 0.5], "#ff8c1a"),
+});
+
+// All 18 one-sided pentominoes in a 5x5 box turning about its middle cell;
+// a trailing ' marks the mirror image.
+export const PENTOMINOES = definePieceSet("pentomino", {
+  F5: piece([[2, 1], [3, 1], [1, 2], [2, 2], [2, 3]], [2, 2], "#b14cff"),
+  "F5'": piece([[1, 1], [2, 1], [2, 2], [3, 2], [2, 3]], [2, 2], "#8f3bd6"),
+  I5: piece([[0, 2], [1, 2], [2, 2], [3, 2], [4, 2]], [2, 2], "#00e5ff"),
+  L5: piece([[3, 1], [0, 2], [1, 2], [2, 2], [3, 2]], [2, 2], "#ff8c1a"),
+  "L5'": piece([[0, 1], [0, 2], [1, 2], [2, 2], [3, 2]], [2, 2], "#2f6bff"),
+  N5: piece([[2, 1], [3, 1], [0, 2], [1, 2], [2, 2]], [2, 2], "#00ff7f"),
+  "N5'": piece([[0, 1], [1, 1], [1, 2], [2, 2], [3, 2]], [2, 2], "#ff3b4e"),
+  P5: piece([[1, 1], [2, 1], [3, 1], [1, 2], [2, 2]], [2, 2], "#ffd60a"),
+  "P5'": piece([[1, 1], [2, 1], [3, 1], [2, 2], [3, 2]], [2, 2], "#e0b800"),
+  T5: piece([[1, 1], [2, 1], [3, 1], [2, 2], [2, 3]], [2, 2], "#d580ff"),
+  U5: piece([[1, 1], [3, 1], [1, 2], [2, 2], [3, 2]], [2, 2], "#ff6ec7"),
+  V5: piece([[1, 1], [1, 2], [1, 3], [2, 3], [3, 3]], [2, 2], "#5fd3ff"),
+  W5: piece([[1, 1], [1, 2], [2, 2], [2, 3], [3, 3]], [2, 2], "#9bff5f"),
+  X5: piece([[2, 1], [1, 2], [2, 2], [3, 2], [2, 3]], [2, 2], "#ffffff"),
+  Y5: piece([[2, 1], [0, 2], [1, 2], [2, 2], [3, 2]], [2, 2], "#ffb35c"),
+  "Y5'": piece([[1, 1], [0, 2], [1, 2], [2, 2], [3, 2]], [2, 2], "#5c8dff"),
+  Z5: piece([[1, 1], [2, 1], [2, 2], [2, 3], [3, 3]], [2, 2], "#ff7a85"),
+  "Z5'": piece([[2, 1], [3, 1], [2, 2], [1, 3], [2, 3]], [2, 2], "#3dffa8"),
+});
+
+export const PIECE_SETS: Record<PieceSetName, PieceSet> = {
+  tetromino: TETROMINOES,
+  tromino: TROMINOES,
+  pentomino: PENTOMINOES,
+};
+
+export const PIECE_SET_NAMES = Object.keys(PIECE_SETS) as PieceSetName[];
@@ -0,0 +1,94 @@
+import type { GameParams, Handling } from "./types";
+import { DEFAULT_PARAMS } from "./params";
+import { CLASSIC_RANDOM, TGM_RANDOM } from "./randomizer";
+import { nesScore } from "./scoring";
+import { CLASSIC_ATTACK } from "./attack";
+import { nesGravity, TWENTY_G, FPS } from "./gravity";
+
+export type PresetName = "guideline" | "nes" | "tgm";
+
+const frames = (n: number) => (n * 1000) / FPS;
+
+// Modern guideline marathon: the defaults with the modern extras switched on.
+export const GUIDELINE_PARAMS: GameParams = {
+  ...DEFAULT_PARAMS,
+  hiddenRows: 20,
+  lineClearDelayMs: 250,
+  preserveDas: true,
+  rotate180: true,
+  initialRotation: true,
+  initialHold: true,
+  previewCount: 5,
+};
+
+// NES: frame timing with its frames-per-row gravity table, no hold, no lock delay,
+// 40/100/300/1200 scoring. No buffer: pieces appear inside the field and only
+// block out ends the game.
+export const NES_PARAMS: GameParams = {
+  ...DEFAULT_PARAMS,
+  timing: "frames",
+  hiddenRows: 0,
+  spawnRow: 0,
+  lockOut: "board",
+  gravityCellsPerSec: nesGravity,
+  lockDelayMs: 0,
+  lockReset: "classic",
+  lineClearDelayMs: frames(18),
+  areMs: frames(10),
+  dasMs: frames(16),
+  arrMs: frames(6),
+  preserveDas: true,
+  softDropBonus: FPS / 2, // one row every other frame
+  holdMode: "disabled",
+  rotate180: false,
+  initialRotation: false,
+  initialHold: false,
+  previewCount: 1,
+  randomizer: CLASSIC_RANDOM,
+  hardDropPoints: 0,
+  lineClearScore: nesScore,
+  levelUp: (total) => Math.floor(total / 10),
+  attackTable: CLASSIC_ATTACK,
+};
+
+// TGM-style 20G: pieces land the frame they appear and slide along the stack.
+// Pieces appear in the top rows of the field, with a single hidden row above.
+export const TGM_PARAMS: GameParams = {
+  ...DEFAULT_PARAMS,
+  hiddenRows: 1,
+  spawnRow: 0,
+  lockOut: "board",
+  gravityCellsPerSec: () => TWENTY_G,
+  lockDelayMs: frames(30),
+  lockReset: "step",
+  lineClearDelayMs: frames(40),
+  areMs: frames(27),
+  dasMs: frames(16),
+  arrMs: frames(1),
+  preserveDas: true,
+  holdMode: "disabled",
+  rotate180: false,
+  initialRotation: true,
+  initialHold: false,
+  previewCount: 1,
+  randomizer: TGM_RANDOM,
+};
+
+export const PRESETS: Record<PresetName, GameParams> = {
+  guideline: GUIDELINE_PARAMS,
+  nes: NES_PARAMS,
+  tgm: TGM_PARAMS,
+};
+
+export const PRESET_NAMES = Object.keys(PRESETS) as PresetName[];
+
+export type HandlingName = "preset" | "fast" | "instant";
+
+// Handling a player can pick on top of any rule set; "preset" keeps the rule set's own.
+export const HANDLING_PROFILES: Record<HandlingName, Partial<Handling>> = {
+  preset: {},
+  fast: { dasMs: 117, arrMs: 17, softDropFactor: 20, dasCutMs: 0, lastPressedWins: true },
+  instant: { dasMs: 100, arrMs: 0, softDropFactor: Infinity, dasCutMs: 17, lastPressedWins: true },
+};
+
+export const HANDLING_NAMES = Object.keys(HANDLING_PROFILES) as HandlingName[];
@@ -0,0 +1,96 @@
+import type { Board, ClearInfo, GameEvent, GameParams, GameState } from "./types";
+import type { ShapeKey } from "./shapes";
+import { DEFAULT_PARAMS } from "./params";
+import { createGame } from "./logic";
+import { fixedQueue } from "./randomizer";
+import { PUZZLE, finishGame } from "./modes";
+import { decodeFumen, encodeFumen, fumenQuiz, fumenQuizComment } from "./fumen";
+
+export type PuzzleGoal =
+  | { type: "perfectClear" }
+  | { type: "tspin"; lines: number } // a full T-spin clearing exactly this many lines
+  | { type: "lines"; lines: number };
+
+export interface Puzzle {
+  board: Board;           // starting field, top row first, lined up with the floor
+  queue: ShapeKey[];      // every piece there is to place; the first one spawns
+  hold: ShapeKey | null;
+  goal: PuzzleGoal;
+}
+
+export type PuzzleStatus = "playing" | "solved" | "failed";
+
+// The puzzle's queue replaces the randomizer and its mode replaces the game mode.
+export function puzzleParams(puzzle: Puzzle, base: GameParams = DEFAULT_PARAMS): GameParams {
+  return { ...base, mode: PUZZLE, randomizer: fixedQueue(puzzle.queue) };
+}
+
+// `params` should come from puzzleParams(). The board is as wide as the puzzle's.
+export function startPuzzle(puzzle: Puzzle, params: GameParams, visibleH = 20): GameState {
+  const totalH = visibleH + params.hiddenRows;
+  const rows = puzzle.board.slice(Math.max(0, puzzle.board.length - totalH));
+  if (puzzle.board.length > rows.length && puzzle.board.slice(0, -rows.length).some((row) => row.some((c) => c))) {
+    throw new Error(`Puzzle board doesn't fit in ${totalH} rows`);
+  }
+  const state = createGame(puzzle.board[0]?.length ?? 10, visibleH, 0, params, rows);
+  state.hold = puzzle.hold;
+  return state;
+}
+
+function meetsGoal(goal: PuzzleGoal, clear: ClearInfo, state: GameState): boolean {
+  switch (goal.type) {
+    case "perfectClear": return clear.perfectClear;
+    case "tspin": return clear.tspin === "full" && clear.lines === goal.lines;
+    case "lines": return state.lines >= goal.lines;
+  }
+}
+
+// Call after each step() with the events it returned. Meeting the goal ends
+// the game as a "goal" finish, even on the lock that used up the queue.
+export function judgePuzzle(
+  state: GameState, puzzle: Puzzle, events: GameEvent[], params: GameParams
+): PuzzleStatus {
+  const solved = events.some((e) => e.type === "clear" && meetsGoal(puzzle.goal, e.clear, state));
+  if (solved && !state.gameOver) finishGame(state, params, "goal");
+  else if (solved && state.result) state.result.end = "goal";
+  if (!state.gameOver) return "playing";
+  return state.result?.end === "goal" ? "solved" : "failed";
+}
+
+// Reads goals the way setups are usually captioned: "PC", "TSD", "4 lines".
+export function parsePuzzleGoal(text: string): PuzzleGoal | null {
+  if (/\bPC\b|perfect clear/i.test(text)) return { type: "perfectClear" };
+  const spin = /\bTS([SDT])\b|t-?spin (single|double|triple)/i.exec(text);
+  if (spin) return { type: "tspin", lines: "SDT".indexOf((spin[1] ?? spin[2][0]).toUpperCase()) + 1 };
+  const lines = /(\d+)\s*lines?\b|clear\s+(\d+)/i.exec(text);
+  if (lines) return { type: "lines", lines: Number(lines[1] ?? lines[2]) };
+  return null;
+}
+
+export function puzzleGoalLabel(goal: PuzzleGoal): string {
+  switch (goal.type) {
+    case "perfectClear": return "Perfect clear";
+    case "tspin": return `T-spin ${["single", "double", "triple"][goal.lines - 1] ?? goal.lines}`;
+    case "lines": return `Clear ${goal.lines} line${goal.lines === 1 ? "" : "s"}`;
+  }
+}
+
+// The first page is the starting field. The queue comes from its quiz comment,
+// or else from the pieces placed across the pages; the goal from `goal`, the
+// comment, or a perfect clear.
+export function puzzleFromFumen(text: string, goal?: PuzzleGoal): Puzzle {
+  const pages = decodeFumen(text);
+  if (!pages.length) throw new Error("Fumen has no pages");
+  const quiz = fumenQuiz(pages[0].comment);
+  return {
+    board: pages[0].board,
+    queue: quiz?.queue ?? pages.flatMap((p) => (p.piece ? [p.piece.type] : [])),
+    hold: quiz?.hold ?? null,
+    goal: goal ?? parsePuzzleGoal(pages[0].comment.replace(/^\s*#Q=\S*/, "")) ?? { type: "perfectClear" },
+  };
+}
+
+// One page with the field and a quiz comment holding the queue.
+export function puzzleToFumen(puzzle: Puzzle): string {
+  return encodeFumen([{ board: puzzle.board, piece: null, comment: fumenQuizComment(puzzle.hold, puzzle.queue), lock: true }]);
+}
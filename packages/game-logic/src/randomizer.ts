@@ -0,0 +1,89 @@
+import type { Randomizer, RandomizerState } from "./types";
+import type { ShapeKey } from "./shapes";
+import { RNG } from "./rng";
+import { generateBag } from "./bag";
+import { pieceKeys } from "./pieces";
+
+export type RandomizerName = "bag7" | "bag14" | "classic" | "tgm";
+
+export function makeRandomizerState(seed: number): RandomizerState {
+  return { rng: new RNG(seed).seed, bag: [], history: [] };
+}
+
+// Run fn against the stored xorshift state and write the advanced state back.
+function draw<T>(rs: RandomizerState, fn: (rng: RNG) => T): T {
+  const rng = new RNG(rs.rng);
+  const value = fn(rng);
+  rs.rng = rng.seed;
+  return value;
+}
+
+function bagRandomizer(name: RandomizerName, copies: number): Randomizer {
+  return {
+    name,
+    next(rs, pieces) {
+      if (!rs.bag.length) rs.bag = draw(rs, (rng) => generateBag(rng, pieces, copies));
+      return rs.bag.shift() as ShapeKey;
+    },
+  };
+}
+
+export const BAG_7 = bagRandomizer("bag7", 1);
+export const BAG_14 = bagRandomizer("bag14", 2);
+
+// Memoryless: every piece is an independent uniform pick.
+export const CLASSIC_RANDOM: Randomizer = {
+  name: "classic",
+  next: (rs, pieces) => draw(rs, (rng) => rng.pick(pieceKeys(pieces))),
+};
+
+const TGM_HISTORY = ["Z", "S", "Z", "S"];
+const TGM_UNFAIR_FIRST = ["S", "Z", "O"];
+
+// TGM-style: reroll up to `rolls` times while the pick is in the last 4 pieces.
+// With tetrominoes the history starts as Z S Z S and the first piece is never
+// S, Z or O; other sets start with an empty history.
+export function tgmRandomizer(rolls = 6): Randomizer {
+  return {
+    name: "tgm",
+    next(rs, pieces) {
+      const keys = pieceKeys(pieces);
+      return draw(rs, (rng) => {
+        let piece: ShapeKey;
+        if (!rs.history.length && TGM_HISTORY.every((k) => keys.includes(k))) {
+          rs.history = [...TGM_HISTORY];
+          piece = rng.pick(keys.filter((k) => !TGM_UNFAIR_FIRST.includes(k)));
+        } else {
+          piece = rng.pick(keys);
+          for (let i = 1; i < rolls && rs.history.includes(piece); i++) piece = rng.pick(keys);
+        }
+        rs.history.push(piece);
+        if (rs.history.length > TGM_HISTORY.length) rs.history.shift();
+        return piece;
+      });
+    },
+  };
+}
+
+export const TGM_RANDOM = tgmRandomizer();
+
+// Deals `keys` in order, then runs out. How far it got is kept in the history,
+// so the state snapshots like any other randomizer's.
+export function fixedQueue(keys: ShapeKey[]): Randomizer {
+  return {
+    name: "fixed",
+    next(rs) {
+      const piece = keys[rs.history.length];
+      if (piece === undefined) return null;
+      rs.history.push(piece);
+      return piece;
+    },
+  };
+}
+
+export const RANDOMIZERS: Record<RandomizerName, Randomizer> = {
+  bag7: BAG_7,
+  bag14: BAG_14,
+  classic: CLASSIC_RANDOM,
+  tgm: TGM_RANDOM,
+};
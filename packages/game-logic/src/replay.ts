@@ -0,0 +1,154 @@
+import type { BoardRules, GameEvent, GameParams, GameResult, GameState, Handling, Inputs, TimingMode } from "./types";
+import { createGame, step } from "./logic";
+import { PRESETS, type PresetName } from "./presets";
+import { GAME_MODES, type GameModeName } from "./modes";
+import { PIECE_SETS, type PieceSetName } from "./pieces";
+import { hashState } from "./snapshot";
+import type { GameStats } from "./stats";
+
+// Bump when the format or the simulation changes in a way old replays can't follow.
+export const REPLAY_VERSION = 1;
+
+// Bit i of a tick's mask is INPUT_BITS[i].
+export const INPUT_BITS = [
+  "left", "right", "rotCW", "rotCCW", "softDrop", "hardDrop", "hold", "respawn",
+  "rot180", "heldCW", "heldCCW", "held180", "heldHold",
+] as const satisfies readonly (keyof Inputs)[];
+
+export function encodeInputs(inputs: Inputs): number {
+  let mask = 0;
+  INPUT_BITS.forEach((key, i) => {
+    if (inputs[key]) mask |= 1 << i;
+  });
+  return mask;
+}
+
+export function decodeInputs(mask: number): Inputs {
+  const inputs: Inputs = {};
+  INPUT_BITS.forEach((key, i) => {
+    if (mask & (1 << i)) inputs[key] = true;
+  });
+  return inputs;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  boardW: number;
+  boardH: number;   // visible rows, as passed to createGame
+  rules: BoardRules; // buffer, spawn and top-out rules
+  handling: Handling; // the player's DAS, ARR and soft drop settings
+  preset: PresetName;
+  mode: GameModeName;
+  pieceSet: PieceSetName;
+  timing: TimingMode;
+  dtMs: number;     // length of every tick (ignored by frame timing)
+  runs: [mask: number, ticks: number][]; // run-length encoded input masks
+  result: GameResult | null;
+  finalHash?: number; // hashState() of the last state, to check a playback against
+  stats?: GameStats;  // figures for results screens and leaderboards, see StatsTracker
+}
+
+export type ReplaySetup = Omit<Replay, "version" | "runs" | "result" | "finalHash" | "stats">;
+
+// Rebuilds the params a replay was recorded with.
+export function replayParams(
+  replay: Pick<Replay, "preset" | "mode" | "pieceSet" | "timing" | "rules" | "handling">
+): GameParams {
+  return {
+    ...PRESETS[replay.preset],
+    ...replay.rules,
+    ...replay.handling,
+    mode: GAME_MODES[replay.mode],
+    pieceSet: PIECE_SETS[replay.pieceSet],
+    timing: replay.timing,
+  };
+}
+
+export function replayTicks(replay: Replay): number {
+  return replay.runs.reduce((n, [, ticks]) => n + ticks, 0);
+}
+
+// Feed it the exact Inputs given to every step() of a game.
+export class ReplayRecorder {
+  private runs: [number, number][] = [];
+  constructor(public readonly setup: ReplaySetup) {}
+
+  record(inputs: Inputs) {
+    const mask = encodeInputs(inputs);
+    const last = this.runs[this.runs.length - 1];
+    if (last && last[0] === mask) last[1]++;
+    else this.runs.push([mask, 1]);
+  }
+
+  // Pass the recorded game's state (and stats) to embed its result and final hash.
+  finish(state: GameState | null = null, stats?: GameStats): Replay {
+    return {
+      version: REPLAY_VERSION,
+      ...this.setup,
+      runs: this.runs.map(([m, n]) => [m, n]),
+      result: state?.result ?? null,
+      finalHash: state ? hashState(state) : undefined,
+      stats: stats && { ...stats, clears: { ...stats.clears }, pieceCounts: { ...stats.pieceCounts } },
+    };
+  }
+}
+
+// Re-runs a recording through step(), one tick per call.
+export class ReplayPlayer {
+  readonly params: GameParams;
+  readonly state: GameState;
+  private run = 0;
+  private tickInRun = 0;
+
+  constructor(public readonly replay: Replay) {
+    this.params = replayParams(replay);
+    this.state = createGame(replay.boardW, replay.boardH, replay.seed, this.params);
+  }
+
+  get done(): boolean {
+    return this.run >= this.replay.runs.length;
+  }
+
+  // Advances one tick; null once the recording is used up.
+  step(): GameEvent[] | null {
+    if (this.done) return null;
+    const [mask, ticks] = this.replay.runs[this.run];
+    const events = step(this.state, decodeInputs(mask), this.replay.dtMs, this.params);
+    if (++this.tickInRun >= ticks) {
+      this.run++;
+      this.tickInRun = 0;
+    }
+    return events;
+  }
+
+  runToEnd(): GameState {
+    while (this.step());
+    return this.state;
+  }
+
+  // Plays the rest and checks it ends where the recording did (true if no hash was saved).
+  verify(): boolean {
+    const end = this.runToEnd();
+    return this.replay.finalHash === undefined || hashState(end) === this.replay.finalHash;
+  }
+}
+
+// JSON has no Infinity (an instant soft drop), so it's written as a string.
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay, (_, v) => (v === Infinity ? "Infinity" : v));
+}
+
+export function parseReplay(text: string): Replay {
+  const replay = JSON.parse(text, (_, v) => (v === "Infinity" ? Infinity : v)) as Replay;
+  if (replay?.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${replay?.version} (expected ${REPLAY_VERSION})`);
+  }
+  if (
+    !(replay.preset in PRESETS) || !(replay.mode in GAME_MODES) || !(replay.pieceSet in PIECE_SETS) ||
+    !Array.isArray(replay.runs)
+  ) {
+    throw new Error("Malformed replay");
+  }
+  return replay;
+}
@@ -9,8 +9,8 @@ export class RNG {
       x ^= x >>> 17;
       x ^= x << 5;
       this.seed = x | 0;
-      // 0..1
-      return ((x >>> 0) / 0xffffffff);
+      // [0, 1)
+      return ((x >>> 0) / 0x100000000);
     }
     pick<T>(arr: T[]): T {
       return arr[Math.floor(this.next() * arr.length)];
@@ -0,0 +1,41 @@
+import type { ClearInfo } from "./types";
+
+// Guideline point values before the level multiplier, indexed by lines cleared.
+const LINE_POINTS = [0, 100, 300, 500, 800];
+const TSPIN_POINTS = [400, 800, 1200, 1600];
+const TSPIN_MINI_POINTS = [100, 200, 400];
+const PERFECT_CLEAR_POINTS = [0, 800, 1200, 1800, 2000];
+const PERFECT_CLEAR_B2B_TETRIS = 3200;
+const COMBO_POINTS = 50;
+
+// Tetrises and T-spins that clear lines keep a back-to-back chain alive.
+export function isDifficultClear(clear: Pick<ClearInfo, "lines" | "tspin">): boolean {
+  return clear.lines >= 4 || (clear.tspin !== "none" && clear.lines > 0);
+}
+
+// Guideline scoring; level is 0-based here so the multiplier is level + 1.
+export function guidelineScore(clear: ClearInfo, level: number): number {
+  const mult = level + 1;
+  let points =
+    clear.tspin === "full" ? TSPIN_POINTS[Math.min(clear.lines, 3)] :
+    clear.tspin === "mini" ? TSPIN_MINI_POINTS[Math.min(clear.lines, 2)] :
+    LINE_POINTS[Math.min(clear.lines, 4)];
+  if (clear.backToBack) points = Math.floor(points * 1.5);
+  points *= mult;
+
+  if (clear.combo > 0) points += COMBO_POINTS * clear.combo * mult;
+  if (clear.perfectClear) {
+    const pc = clear.backToBack && clear.lines >= 4
+      ? PERFECT_CLEAR_B2B_TETRIS
+      : PERFECT_CLEAR_POINTS[Math.min(clear.lines, 4)];
+    points += pc * mult;
+  }
+  return points;
+}
+
+const NES_LINE_POINTS = [0, 40, 100, 300, 1200];
+
+// NES: lines only, no T-spins, combos or back-to-back.
+export function nesScore(clear: ClearInfo, level: number): number {
+  return NES_LINE_POINTS[Math.min(clear.lines, 4)] * (level + 1);
+}
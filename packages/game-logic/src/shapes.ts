@@ -1,26 +1,80 @@
+import type { Kick } from "./srs";
+
 export const TILE = 24 as const;
 
-export type ShapeKey = "I" | "O" | "T" | "J" | "L" | "S" | "Z";
+// Any piece key of a registered PieceSet (see pieces.ts); the standard seven are TetrominoKey.
+export type ShapeKey = string;
+export type TetrominoKey = "I" | "O" | "T" | "J" | "L" | "S" | "Z";
 export type Cell = [number, number];
 
-export const SHAPES: Record<ShapeKey, Cell[]> = {
-  I: [[0,0],[1,0],[2,0],[3,0]],
+export const SHAPE_KEYS: TetrominoKey[] = ["I","O","T","J","L","S","Z"];
+
+// Spawn orientation (state 0) inside each piece's SRS bounding box, y down.
+export const SHAPES: Record<TetrominoKey, Cell[]> = {
+  I: [[0,1],[1,1],[2,1],[3,1]],
   O: [[0,0],[1,0],[0,1],[1,1]],
-  T: [[0,0],[1,0],[2,0],[1,1]],
-  L: [[0,0],[0,1],[0,2],[1,2]],
-  J: [[1,0],[1,1],[1,2],[0,2]],
+  T: [[1,0],[0,1],[1,1],[2,1]],
+  L: [[2,0],[0,1],[1,1],[2,1]],
+  J: [[0,0],[0,1],[1,1],[2,1]],
   S: [[1,0],[2,0],[0,1],[1,1]],
   Z: [[0,0],[1,0],[1,1],[2,1]],
 };
 
-export function rotateCells(cells: Cell[], r: number): Cell[] {
+// True rotation centers: JLSTZ turn about a cell, I and O about a grid corner.
+export const CENTERS: Record<TetrominoKey, [number, number]> = {
+  I: [1.5, 1.5],
+  O: [0.5, 0.5],
+  T: [1, 1],
+  L: [1, 1],
+  J: [1, 1],
+  S: [1, 1],
+  Z: [1, 1],
+};
+
+// SRS wall kicks keyed "from>to". Offsets are listed as published (x right,
+// y up) so they can be checked against the guideline; kicksFor() flips y.
+export const JLSTZ_KICKS: Record<string, Kick[]> = {
+  "0>1": [[0, 0], [-1, 0], [-1, +1], [0, -2], [-1, -2]],
+  "1>0": [[0, 0], [+1, 0], [+1, -1], [0, +2], [+1, +2]],
+  "1>2": [[0, 0], [+1, 0], [+1, -1], [0, +2], [+1, +2]],
+  "2>1": [[0, 0], [-1, 0], [-1, +1], [0, -2], [-1, -2]],
+  "2>3": [[0, 0], [+1, 0], [+1, +1], [0, -2], [+1, -2]],
+  "3>2": [[0, 0], [-1, 0], [-1, -1], [0, +2], [-1, +2]],
+  "3>0": [[0, 0], [-1, 0], [-1, -1], [0, +2], [-1, +2]],
+  "0>3": [[0, 0], [+1, 0], [+1, +1], [0, -2], [+1, -2]],
+};
+
+export const I_KICKS: Record<string, Kick[]> = {
+  "0>1": [[0, 0], [-2, 0], [+1, 0], [-2, -1], [+1, +2]],
+  "1>0": [[0, 0], [+2, 0], [-1, 0], [+2, +1], [-1, -2]],
+  "1>2": [[0, 0], [-1, 0], [+2, 0], [-1, +2], [+2, -1]],
+  "2>1": [[0, 0], [+1, 0], [-2, 0], [+1, -2], [-2, +1]],
+  "2>3": [[0, 0], [+2, 0], [-1, 0], [+2, +1], [-1, -2]],
+  "3>2": [[0, 0], [-2, 0], [+1, 0], [-2, -1], [+1, +2]],
+  "3>0": [[0, 0], [+1, 0], [-2, 0], [+1, -2], [-2, +1]],
+  "0>3": [[0, 0], [-1, 0], [+2, 0], [-1, +2], [+2, -1]],
+};
+
+// 180 kicks (SRS+), the same for every piece: "0>2" and "2>0" try nudges up
+// and sideways, "1>3" and "3>1" sideways and up.
+export const KICKS_180: Record<string, Kick[]> = {
+  "0>2": [[0, 0], [0, +1], [+1, +1], [-1, +1], [+1, 0], [-1, 0]],
+  "2>0": [[0, 0], [0, -1], [-1, -1], [+1, -1], [-1, 0], [+1, 0]],
+  "1>3": [[0, 0], [+1, 0], [+1, +2], [+1, +1], [0, +2], [0, +1]],
+  "3>1": [[0, 0], [-1, 0], [-1, +2], [-1, +1], [0, +2], [0, +1]],
+};
+
+// Rotates clockwise r quarter turns about center (y down, so CW maps +x to +y).
+export function rotateCells(cells: Cell[], r: number, center: [number, number] = [0, 0]): Cell[] {
   const n = ((r % 4) + 4) % 4;
+  const [cx, cy] = center;
   return cells.map(([x,y]) => {
+    const dx = x - cx, dy = y - cy;
     switch (n) {
-      case 1: return [-y,  x];
-      case 2: return [-x, -y];
-      case 3: return [ y, -x];
-      default:return [ x,  y];
+      case 1: return [cx - dy, cy + dx];
+      case 2: return [cx - dx, cy - dy];
+      case 3: return [cx + dy, cy - dx];
+      default:return [x, y];
     }
   });
 }
@@ -31,8 +85,8 @@ export function normalize(cells: Cell[]): Cell[] {
   return cells.map(([x,y]) => [x - minX, y - minY]);
 }
 
-export function shapeBounds(type: ShapeKey, rot: number) {
-  const cells = normalize(rotateCells(SHAPES[type], rot));
+export function shapeBounds(type: TetrominoKey, rot: number) {
+  const cells = normalize(rotateCells(SHAPES[type], rot, CENTERS[type]));
   let maxX = 0, maxY = 0;
   for (const [x,y] of cells) { if (x > maxX) maxX = x; if (y > maxY) maxY = y; }
   return { w: (maxX + 1) * TILE, h: (maxY + 1) * TILE };
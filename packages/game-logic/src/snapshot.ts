@@ -0,0 +1,290 @@
+import type {
+  BoardCell, ClearInfo, GameEnd, GamePhase, GameResult, GameState, GarbageBatch, Piece, RotateDir, TSpin,
+} from "./types";
+import type { ShapeKey } from "./shapes";
+
+// Bump whenever a field is added, removed or re-encoded below.
+export const SNAPSHOT_VERSION = 1;
+
+// ---- byte buffers ----
+
+class ByteWriter {
+  private buf = new Uint8Array(512);
+  private view = new DataView(this.buf.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    const next = new Uint8Array(Math.max(this.buf.length * 2, this.length + n));
+    next.set(this.buf);
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+  u8(v: number) { this.reserve(1); this.view.setUint8(this.length, v); this.length += 1; }
+  i32(v: number) { this.reserve(4); this.view.setInt32(this.length, v); this.length += 4; }
+  f64(v: number) { this.reserve(8); this.view.setFloat64(this.length, v); this.length += 8; }
+  // small non-negative ints in 1-5 bytes
+  uvar(v: number) {
+    do {
+      const b = v & 0x7f;
+      v >>>= 7;
+      this.u8(v ? b | 0x80 : b);
+    } while (v);
+  }
+  svar(v: number) { this.uvar(v < 0 ? (~v << 1) | 1 : v << 1); }
+  str(s: string) {
+    this.uvar(s.length);
+    for (let i = 0; i < s.length; i++) this.uvar(s.charCodeAt(i));
+  }
+  bytes() { return this.buf.slice(0, this.length); }
+}
+
+class ByteReader {
+  private view: DataView;
+  private pos = 0;
+  constructor(private buf: Uint8Array) {
+    this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  }
+  private need(n: number) {
+    if (this.pos + n > this.buf.length) throw new Error("Snapshot is truncated");
+  }
+  u8() { this.need(1); return this.view.getUint8(this.pos++); }
+  i32() { this.need(4); const v = this.view.getInt32(this.pos); this.pos += 4; return v; }
+  f64() { this.need(8); const v = this.view.getFloat64(this.pos); this.pos += 8; return v; }
+  uvar() {
+    let v = 0;
+    for (let shift = 0; ; shift += 7) {
+      const b = this.u8();
+      v |= (b & 0x7f) << shift;
+      if (!(b & 0x80)) return v >>> 0;
+    }
+  }
+  svar() { const v = this.uvar(); return v & 1 ? ~(v >>> 1) : v >>> 1; }
+  str() {
+    let s = "";
+    for (let n = this.uvar(); n > 0; n--) s += String.fromCharCode(this.uvar());
+    return s;
+  }
+}
+
+// ---- field codecs ----
+
+interface Codec<T> {
+  write(w: ByteWriter, v: T): void;
+  read(r: ByteReader): T;
+}
+
+const bool: Codec<boolean> = { write: (w, v) => w.u8(v ? 1 : 0), read: (r) => r.u8() === 1 };
+const uint: Codec<number> = { write: (w, v) => w.uvar(v), read: (r) => r.uvar() };
+const int: Codec<number> = { write: (w, v) => w.svar(v), read: (r) => r.svar() };
+const i32: Codec<number> = { write: (w, v) => w.i32(v), read: (r) => r.i32() };
+const f64: Codec<number> = { write: (w, v) => w.f64(v), read: (r) => r.f64() };
+const str: Codec<string> = { write: (w, v) => w.str(v), read: (r) => r.str() };
+
+function oneOf<T>(values: readonly T[]): Codec<T> {
+  return {
+    write: (w, v) => w.uvar(values.indexOf(v)),
+    read: (r) => {
+      const i = r.uvar();
+      if (i >= values.length) throw new Error("Snapshot has an unknown value");
+      return values[i];
+    },
+  };
+}
+
+function nullable<T>(c: Codec<T>): Codec<T | null> {
+  return {
+    write: (w, v) => { w.u8(v === null ? 0 : 1); if (v !== null) c.write(w, v); },
+    read: (r) => (r.u8() ? c.read(r) : null),
+  };
+}
+
+function list<T>(c: Codec<T>): Codec<T[]> {
+  return {
+    write: (w, v) => { w.uvar(v.length); for (const x of v) c.write(w, x); },
+    read: (r) => {
+      const out: T[] = [];
+      for (let n = r.uvar(); n > 0; n--) out.push(c.read(r));
+      return out;
+    },
+  };
+}
+
+function record<T>(fields: { [K in keyof T]: Codec<T[K]> }): Codec<T> {
+  const keys = Object.keys(fields) as (keyof T)[];
+  return {
+    write: (w, v) => { for (const k of keys) fields[k].write(w, v[k]); },
+    read: (r) => {
+      const out = {} as T;
+      for (const k of keys) out[k] = fields[k].read(r);
+      return out;
+    },
+  };
+}
+
+// Piece keys are free-form with custom piece sets.
+const shape: Codec<ShapeKey> = str;
+
+const piece = record<Piece>({ type: shape, x: int, y: int, rot: uint });
+
+const clearInfo = record<ClearInfo>({
+  piece: shape,
+  lines: uint,
+  tspin: oneOf<TSpin>(["none", "mini", "full"]),
+  combo: int,
+  backToBack: bool,
+  perfectClear: bool,
+});
+
+const result = record<GameResult>({
+  mode: str,
+  end: oneOf<GameEnd>(["goal", "time", "topOut", "outOfPieces"]),
+  timeMs: f64,
+  score: f64,
+  lines: uint,
+  level: uint,
+});
+
+const garbageBatch = record<GarbageBatch>({ lines: uint, timerMs: f64, hole: int });
+
+// Two cells per byte while every cell code fits in four bits (tetrominoes and
+// trominoes); one varint per cell once larger piece sets need more codes.
+const board: Codec<BoardCell[][]> = {
+  write(w, rows) {
+    w.uvar(rows.length);
+    w.uvar(rows[0]?.length ?? 0);
+    const cells = rows.flat();
+    const packed = cells.every((c) => c < 16);
+    w.u8(packed ? 1 : 0);
+    if (!packed) {
+      for (const c of cells) w.uvar(c);
+      return;
+    }
+    for (let i = 0; i < cells.length; i += 2) w.u8(cells[i] | ((cells[i + 1] ?? 0) << 4));
+  },
+  read(r) {
+    const h = r.uvar();
+    const width = r.uvar();
+    const packed = r.u8() === 1;
+    const cells: BoardCell[] = [];
+    while (cells.length < h * width) {
+      if (!packed) {
+        cells.push(r.uvar());
+        continue;
+      }
+      const b = r.u8();
+      cells.push(b & 0xf, b >> 4);
+    }
+    const rows: BoardCell[][] = [];
+    for (let y = 0; y < h; y++) rows.push(cells.slice(y * width, (y + 1) * width));
+    return rows;
+  },
+};
+
+// Everything except `events`, which only describe the latest step.
+type Snapshot = Omit<GameState, "events">;
+
+const STATE = record<Snapshot>({
+  gameOver: bool,
+  tick: uint,
+  boardW: uint,
+  boardH: uint,
+  hiddenRows: uint,
+  board,
+  level: uint,
+  lines: uint,
+  score: f64,
+  combo: int,
+  b2b: int,
+  active: nullable(piece),
+  hold: nullable(shape),
+  canHold: bool,
+  next: list(shape),
+  fallAccum: f64,
+  lockTimerMs: f64,
+  lockResets: uint,
+  lowestY: int,
+  phase: oneOf<GamePhase>(["falling", "lineClear", "are"]),
+  phaseTimerMs: f64,
+  clearingRows: nullable(list(uint)),
+  pendingRot: oneOf<RotateDir | 0>([-1, 0, 1, 2]),
+  pendingHold: bool,
+  lastMove: oneOf<GameState["lastMove"]>([null, "move", "rotate"]),
+  lastKick: int,
+  lastClear: nullable(clearInfo),
+  elapsedMs: f64,
+  result: nullable(result),
+  dasLeftMs: f64,
+  dasRightMs: f64,
+  arrLeftMs: f64,
+  arrRightMs: f64,
+  shiftDir: oneOf<GameState["shiftDir"]>([-1, 0, 1]),
+  dasCutTimerMs: f64,
+  garbage: list(garbageBatch),
+  garbageRng: i32,
+  garbageHole: int,
+  seed: f64,
+  rand: record<GameState["rand"]>({ rng: i32, bag: list(shape), history: list(shape) }),
+});
+
+function writeState(state: GameState): Uint8Array {
+  const w = new ByteWriter();
+  w.u8(SNAPSHOT_VERSION);
+  STATE.write(w, state);
+  return w.bytes();
+}
+
+// ---- public API ----
+
+export function serializeState(state: GameState): Uint8Array {
+  return writeState(state);
+}
+
+export function deserializeState(bytes: Uint8Array): GameState {
+  const r = new ByteReader(bytes);
+  const version = r.u8();
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version} (expected ${SNAPSHOT_VERSION})`);
+  }
+  return { ...STATE.read(r), events: [] };
+}
+
+export function stateToBase64(state: GameState): string {
+  let bin = "";
+  for (const b of serializeState(state)) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
+
+export function stateFromBase64(text: string): GameState {
+  const bin = atob(text);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return deserializeState(bytes);
+}
+
+// Deep copy that can be stepped independently of the original (cheaper than a round trip).
+export function cloneState(state: GameState): GameState {
+  return {
+    ...state,
+    board: state.board.map((row) => row.slice()),
+    active: state.active && { ...state.active },
+    next: state.next.slice(),
+    clearingRows: state.clearingRows && state.clearingRows.slice(),
+    lastClear: state.lastClear && { ...state.lastClear },
+    events: state.events.slice(),
+    result: state.result && { ...state.result },
+    garbage: state.garbage.map((b) => ({ ...b })),
+    rand: { ...state.rand, bag: state.rand.bag.slice(), history: state.rand.history.slice() },
+  };
+}
+
+// 32-bit FNV-1a over the snapshot bytes: equal states hash equal on every platform.
+// Covers the board, pieces, queue, RNG state and all timers; not the per-step events.
+export function hashState(state: GameState): number {
+  let h = 0x811c9dc5;
+  for (const b of writeState(state)) {
+    h ^= b;
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -1,18 +1,30 @@
-// Very small kick set; expand to full SRS later.
+import type { RotateDir } from "./types";
+import type { ShapeKey } from "./shapes";
+import { pieceDef } from "./pieces";
+
+export type Kick = [number, number];
+
+// Rotations a piece's table doesn't list (e.g. all of O's) only try in place.
+const NO_KICKS: Kick[] = [[0, 0]];
+
+// Kick offsets to test in order, in board coordinates (y down).
+export function kicksFor(type: ShapeKey, from: number, to: number): Kick[] {
+  const kicks = pieceDef(type).kicks[`${from}>${to}`] ?? NO_KICKS;
+  return kicks.map(([dx, dy]) => [dx, -dy]);
+}
+
+// kick is the index of the test that succeeded (0 = no kick), -1 on failure.
 export function tryRotateWithKicks(
     test: (rot: number, dx: number, dy: number) => boolean,
+    type: ShapeKey,
     rotFrom: number,
-    dir: 1 | -1
-  ): { ok: boolean; rot: number; dx: number; dy: number } {
+    dir: RotateDir
+  ): { ok: boolean; rot: number; dx: number; dy: number; kick: number } {
     const rot = (((rotFrom + dir) % 4) + 4) % 4;
-    const kicks: Array<[number, number]> = [
-      [0, 0],
-      [1, 0], [-1, 0],
-      [0, -1], [0, 1],
-    ];
-    for (const [dx, dy] of kicks) {
-      if (test(rot, dx, dy)) return { ok: true, rot, dx, dy };
+    const kicks = kicksFor(type, rotFrom, rot);
+    for (let i = 0; i < kicks.length; i++) {
+      const [dx, dy] = kicks[i];
+      if (test(rot, dx, dy)) return { ok: true, rot, dx, dy, kick: i };
     }
-    return { ok: false, rot: rotFrom, dx: 0, dy: 0 };
+    return { ok: false, rot: rotFrom, dx: 0, dy: 0, kick: -1 };
   }
-  
\ No newline at end of file
@@ -0,0 +1,93 @@
+import type { GameEvent, GameParams, GameState, Inputs } from "./types";
+import type { ShapeKey } from "./shapes";
+import { DEFAULT_PARAMS } from "./params";
+import { clearLabel } from "./tspin";
+import { timerToMs } from "./timing";
+
+export interface GameStats {
+  timeMs: number;    // game clock at the latest step
+  pieces: number;    // pieces locked
+  inputs: number;    // presses: left/right going down (a held shift is one), rotations, drops, holds
+  lines: number;
+  attack: number;    // lines sent, after cancelling incoming garbage
+  maxCombo: number;  // longest run of clearing locks, counted like state.combo
+  backToBacks: number;
+  perfectClears: number;
+  clears: Record<string, number>;                // by clearLabel(): "TETRIS", "T-SPIN DOUBLE", ...
+  pieceCounts: Partial<Record<ShapeKey, number>>; // locks per piece type
+}
+
+// Per-second and per-minute figures derived from GameStats.
+export interface StatRates {
+  pps: number; // pieces per second
+  kpp: number; // inputs per piece
+  apm: number; // attack per minute
+  lpm: number; // lines per minute
+}
+
+export function emptyStats(): GameStats {
+  return {
+    timeMs: 0, pieces: 0, inputs: 0, lines: 0, attack: 0, maxCombo: 0, backToBacks: 0, perfectClears: 0,
+    clears: {}, pieceCounts: {},
+  };
+}
+
+// Zero until there is something to divide by.
+export function statRates(stats: GameStats): StatRates {
+  const per = (n: number, ms: number) => (stats.timeMs > 0 ? (n * ms) / stats.timeMs : 0);
+  return {
+    pps: per(stats.pieces, 1000),
+    kpp: stats.pieces ? stats.inputs / stats.pieces : 0,
+    apm: per(stats.attack, 60000),
+    lpm: per(stats.lines, 60000),
+  };
+}
+
+// Watches the Inputs given to every step() and the events it returned; the
+// figures stop with the game's "finish" event.
+export class StatsTracker {
+  readonly stats: GameStats = emptyStats();
+  private prev: Inputs = {};
+  private finished = false;
+
+  // Call after each step() with what it was given and returned.
+  record(state: GameState, inputs: Inputs, events: GameEvent[], params: GameParams = DEFAULT_PARAMS) {
+    if (this.finished) return;
+    const s = this.stats;
+    if (inputs.left && !this.prev.left) s.inputs++;
+    if (inputs.right && !this.prev.right) s.inputs++;
+    if (inputs.softDrop && !this.prev.softDrop) s.inputs++;
+    if (inputs.rotCW) s.inputs++;
+    if (inputs.rotCCW) s.inputs++;
+    if (inputs.rot180 && params.rotate180) s.inputs++;
+    if (inputs.hardDrop) s.inputs++;
+    if (inputs.hold && params.holdMode !== "disabled") s.inputs++;
+    this.prev = { ...inputs };
+    s.timeMs = timerToMs(params, state.elapsedMs);
+
+    for (const e of events) {
+      if (e.type === "lock") {
+        s.pieces++;
+        s.pieceCounts[e.piece.type] = (s.pieceCounts[e.piece.type] ?? 0) + 1;
+      } else if (e.type === "attack") {
+        s.attack += e.lines;
+      } else if (e.type === "clear") {
+        const { clear } = e;
+        s.lines += clear.lines;
+        s.maxCombo = Math.max(s.maxCombo, clear.combo);
+        if (clear.backToBack) s.backToBacks++;
+        if (clear.perfectClear) s.perfectClears++;
+        const label = clearLabel(clear);
+        if (label) s.clears[label] = (s.clears[label] ?? 0) + 1;
+      } else if (e.type === "finish") {
+        this.finished = true;
+      }
+    }
+  }
+
+  reset() {
+    Object.assign(this.stats, emptyStats());
+    this.prev = {};
+    this.finished = false;
+  }
+}
@@ -0,0 +1,31 @@
+import type { GameParams } from "./types";
+import { FPS } from "./gravity";
+
+// Fall accumulator units per cell in frame timing (16.16 fixed point).
+export const SUBCELL = 65536;
+
+// Timer units for a duration given in ms: the ms themselves, or whole frames.
+export function duration(params: GameParams, ms: number): number {
+  return params.timing === "frames" ? Math.round((ms * FPS) / 1000) : ms;
+}
+
+// Back to ms, for display and results.
+export function timerToMs(params: GameParams, units: number): number {
+  return params.timing === "frames" ? (units * 1000) / FPS : units;
+}
+
+// How far the timers advance in one step(); a frame-timed step is always one frame.
+export function stepTime(params: GameParams, dtMs: number): number {
+  return params.timing === "frames" ? 1 : dtMs;
+}
+
+// Fall accumulator units per cell.
+export function cellUnit(params: GameParams): number {
+  return params.timing === "frames" ? SUBCELL : 1;
+}
+
+// Gravity banked in one step: fractional cells, or whole subcells per frame,
+// rounded up so a speed of one row every N frames takes exactly N frames.
+export function fallStep(params: GameParams, cellsPerSec: number, dtMs: number): number {
+  return params.timing === "frames" ? Math.ceil((cellsPerSec * SUBCELL) / FPS) : (cellsPerSec * dtMs) / 1000;
+}
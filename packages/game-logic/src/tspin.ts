@@ -0,0 +1,33 @@
+import type { ClearInfo, GameState, Piece, TSpin } from "./types";
+
+// Corners of the T's 3x3 box, clockwise from top-left.
+const CORNERS: Array<[number, number]> = [[0, 0], [2, 0], [2, 2], [0, 2]];
+
+// 3-corner rule: the last action was a rotation and at least three corners of
+// the T's box are blocked (walls and floor count). It is a full T-spin when
+// both corners on the flat side the T points at are blocked, or when the
+// quarter turn needed the final kick test (TST / fin kicks); otherwise a mini.
+export function detectTSpin(state: GameState, p: Piece): TSpin {
+  if (p.type !== "T" || state.lastMove !== "rotate") return "none";
+
+  const blocked = CORNERS.map(([cx, cy]) => {
+    const gx = p.x + cx, gy = p.y + cy;
+    if (gx < 0 || gx >= state.boardW || gy >= state.boardH) return true;
+    return gy >= 0 && state.board[gy][gx] !== 0;
+  });
+  if (blocked.filter(Boolean).length < 3) return "none";
+
+  // rot 0 points up, so its front corners are top-left and top-right, and so on clockwise
+  const front = blocked[p.rot % 4] && blocked[(p.rot + 1) % 4];
+  return front || state.lastKick === 4 ? "full" : "mini";
+}
+
+const LINE_NAMES = ["", "SINGLE", "DOUBLE", "TRIPLE", "TETRIS"];
+
+// HUD label such as "T-SPIN DOUBLE"; empty for a plain lock.
+export function clearLabel(info: ClearInfo): string {
+  const lines = info.lines >= 4 && info.tspin === "none" ? "TETRIS" : LINE_NAMES[Math.min(info.lines, 3)];
+  if (info.tspin === "none") return lines;
+  const spin = info.tspin === "mini" ? "T-SPIN MINI" : "T-SPIN";
+  return lines ? `${spin} ${lines}` : spin;
+}
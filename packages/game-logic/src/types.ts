@@ -1,7 +1,19 @@
-import type { ShapeKey } from "./shapes";
+import type { Cell, ShapeKey } from "./shapes";
+import type { Kick } from "./srs";
 
-export type Cell = 0 | 1;
-export type Board = Cell[][]; // [row][col], 0=empty, 1=filled (color can come later)
+// Board cell codes: 0 empty, 1-7 the tetromino that locked there, then specials.
+// Pieces of other sets get codes from FIRST_PIECE_CELL up, see pieceCell().
+export const CELL = {
+  EMPTY: 0,
+  I: 1, O: 2, T: 3, J: 4, L: 5, S: 6, Z: 7,
+  GARBAGE: 8,
+  SOLID: 9, // pre-placed fill that did not come from a piece (puzzles, walls)
+} as const;
+
+export const FIRST_PIECE_CELL = 10;
+
+export type BoardCell = number;
+export type Board = BoardCell[][]; // [row][col], see CELL for the codes
 
 export interface Piece {
   type: ShapeKey;
@@ -10,56 +22,255 @@ export interface Piece {
   rot: number; // 0..3
 }
 
-export const HIDDEN_ROWS = 1;
-
 export interface Inputs {
   left?: boolean;
   right?: boolean;
   rotCW?: boolean;
   rotCCW?: boolean;
+  rot180?: boolean;
   softDrop?: boolean;
   hardDrop?: boolean;
   hold?: boolean;
   respawn?: boolean;
+  // Rotate and hold buttons that are down, pressed this tick or earlier. Only
+  // read when a piece spawns, for initial rotation (IRS) and initial hold (IHS).
+  heldCW?: boolean;
+  heldCCW?: boolean;
+  held180?: boolean;
+  heldHold?: boolean;
 }
 
+// Quarter turns clockwise: 1, -1 (counterclockwise) or 2 (180).
+export type RotateDir = 1 | -1 | 2;
+
 export interface GameState {
   gameOver: boolean;
   tick: number;
   boardW: number;
-  boardH: number;
+  boardH: number;     // rows in `board`: the hidden buffer plus the visible field
+  hiddenRows: number; // buffer rows at the top of `board`, above the visible field
   board: Board;
 
   level: number;
   lines: number;
   score: number;
+  combo: number; // consecutive clearing locks minus one; -1 when no chain
+  b2b: number;   // consecutive difficult clears minus one; -1 when no chain
 
   active: Piece | null;
   hold: ShapeKey | null;
   canHold: boolean;
   next: ShapeKey[]; // queue
 
-  // Timers
-  fallAccum: number;     // fractional cells for gravity
+  // Timers: ms, or whole frames when params.timing is "frames" (see timing.ts)
+  fallAccum: number;     // fractional cells for gravity (1/65536ths of a cell with frame timing)
   lockTimerMs: number;   // time piece has been grounded
-  clearingRows: number[] | null; // rows being cleared (optional animation hook)
+  lockResets: number;    // move/rotate resets used by the active piece
+  lowestY: number;       // lowest row the active piece has reached
+  phase: GamePhase;
+  phaseTimerMs: number;  // time spent in the current line-clear / ARE phase
+  clearingRows: number[] | null; // full rows waiting out the line-clear delay (animation hook)
+
+  // Presses made during line-clear / ARE, applied when the next piece spawns
+  pendingRot: RotateDir | 0;
+  pendingHold: boolean;
+
+  // Last successful action on the active piece, for T-spin detection
+  lastMove: "move" | "rotate" | null;
+  lastKick: number;             // kick test used by that quarter turn, -1 if none or a 180
+  lastClear: ClearInfo | null;  // classification of the most recent lock
 
-  // Input throttling
+  events: GameEvent[]; // what happened during the latest step(), see GameEvent
+
+  // Mode
+  elapsedMs: number;          // game clock in timer units; stops when the game ends
+  result: GameResult | null;  // set once the game is over
+
+  // Input throttling (same units as the timers above); DAS timers are -1 while the key is up
   dasLeftMs: number;
   dasRightMs: number;
   arrLeftMs: number;
   arrRightMs: number;
+  shiftDir: -1 | 0 | 1;  // direction that won the last tick's DAS, 0 if none
+  dasCutTimerMs: number; // auto-shift stays paused until this runs out (DAS cut)
+
+  // Versus
+  garbage: GarbageBatch[]; // incoming attacks not yet on the board, oldest first
+  garbageRng: number;      // xorshift32 state for hole columns
+  garbageHole: number;     // hole column of the last garbage row added, -1 if none
 
   // Random
-  seed: number;
+  seed: number;          // seed the game was created with
+  rand: RandomizerState; // advanced in place as pieces are drawn
+}
+
+export interface GarbageBatch {
+  lines: number;
+  timerMs: number; // time spent waiting (timer units); rises once it reaches garbageDelayMs
+  hole: number;    // column of its rows already on the board, -1 before the first
+}
+
+// clean: one hole column per attack; messy: a random hole on every row;
+// cheese: a random hole on every row, never in line with the row above.
+export type GarbagePattern = "clean" | "messy" | "cheese";
+
+export type TSpin = "none" | "mini" | "full";
+
+export interface ClearInfo {
+  piece: ShapeKey;
+  lines: number;
+  tspin: TSpin;
+  combo: number;         // state.combo after this lock (-1 if it cleared nothing)
+  backToBack: boolean;   // difficult clear continuing a difficult-clear chain
+  perfectClear: boolean; // board is empty afterwards
+}
+
+// What restarts the lock timer once a piece is on the ground:
+// extended: moves/rotations, up to maxLockResets (refilled on reaching a new lowest row);
+// infinite: every move/rotation; step: only falling a row; classic: nothing.
+export type LockReset = "extended" | "infinite" | "step" | "classic";
+
+// falling: a piece is in play; lineClear: full rows are still on the board;
+// are: entry delay before the next piece appears.
+export type GamePhase = "falling" | "lineClear" | "are";
+
+export type TopOutReason =
+  | "blockOut"    // a new piece has no room where it spawns
+  | "lockOut"     // a piece locked too high, see LockOutRule
+  | "garbageOut"; // incoming garbage pushed the stack off the top
+
+// When a lock tops out: buffer: every cell is above the visible field
+// (guideline); any: at least one is; board: only cells above the whole board.
+export type LockOutRule = "buffer" | "any" | "board";
+
+// When a spawn tops out: overlap: the spawn position is blocked; raise: the
+// piece first moves up through the buffer looking for room.
+export type BlockOutRule = "overlap" | "raise";
+
+// Where pieces appear and what tops out; replays carry these alongside the
+// visible board size.
+export interface BoardRules {
+  hiddenRows: number;      // buffer rows above the visible field
+  spawnRow: number;        // row of the spawn orientation's top cells, from the top of the visible field (negative: buffer)
+  spawnCol: number | null; // column of its leftmost cells; null centers it
+  lockOut: LockOutRule;
+  blockOut: BlockOutRule;
 }
 
-export interface GameParams {
+// How the player's presses turn into movement. Players pick these for
+// themselves; replays carry them alongside the rules.
+export interface Handling {
+  dasMs: number;            // Delayed Auto Shift
+  arrMs: number;            // Auto Repeat Rate, ms per cell; 0 moves straight to the wall
+  softDropFactor: number;   // soft drop is this many times gravity; Infinity drops to the floor
+  dasCutMs: number;         // auto-shift waits this long after a piece spawns
+  preserveDas: boolean;     // DAS keeps charging through line clears and ARE; false: it starts over
+  lastPressedWins: boolean; // left and right both held: the newer press shifts (false: neither)
+}
+
+export type GameEvent =
+  | { type: "move"; dx: number; dy: number }
+  | { type: "rotate"; dir: RotateDir; kick: number } // kick: index of the test used in dir's kick table (KICKS_180 for 2)
+  | { type: "hold"; piece: ShapeKey; swapped: ShapeKey | null } // swapped: previous hold
+  | { type: "hardDrop"; cells: number }
+  | { type: "lock"; piece: Piece }
+  | { type: "clear"; clear: ClearInfo; rows: number[] } // lines cleared and/or T-spin
+  | { type: "spawn"; piece: ShapeKey }
+  | { type: "attack"; lines: number }  // lines sent to the opponent after cancelling
+  | { type: "garbage"; lines: number } // incoming garbage rows that rose this tick
+  | { type: "topOut"; reason: TopOutReason }
+  | { type: "levelUp"; level: number }
+  | { type: "finish"; result: GameResult }; // the game is over, for any reason
+
+export interface PieceDef {
+  cells: Cell[];            // spawn orientation (state 0) inside its rotation box, y down
+  center: [number, number]; // rotation center in the same box
+  kicks: Record<string, Kick[]>; // wall kicks keyed "from>to", y up; missing: no kick
+  spawn?: [number, number]; // offset from the default spawn (centered, top cells on row 0)
+  color: string;            // CSS color for renderers
+}
+
+// The pieces a game is played with; keys are unique across all sets, so a
+// piece's geometry can be looked up from its key alone.
+export interface PieceSet {
+  readonly name: string;
+  pieces: Record<ShapeKey, PieceDef>;
+}
+
+export interface RandomizerState {
+  rng: number;         // xorshift32 state
+  bag: ShapeKey[];     // pieces left in the current bag
+  history: ShapeKey[]; // recent draws, oldest first
+}
+
+export interface Randomizer {
+  readonly name: string;
+  next(rs: RandomizerState, pieces: PieceSet): ShapeKey | null; // null: the sequence has run out
+}
+
+// What ends a game besides topping out; 0 turns a condition off.
+export interface GameMode {
+  readonly name: string;
+  lineGoal: number;        // finish once this many lines are cleared
+  timeLimitMs: number;     // finish when the clock reaches this
+  topOut: boolean;         // false: topping out wipes the stack and play goes on
+  ranking: "time" | "score"; // what the result is judged by
+}
+
+// goal: line goal reached; time: time limit ran out; topOut: the stack did.
+export type GameEnd = "goal" | "time" | "topOut" | "outOfPieces";
+
+export interface GameResult {
+  mode: string;
+  end: GameEnd;
+  timeMs: number;
+  score: number;
+  lines: number;
+  level: number;
+}
+
+// Lines sent per clear in versus, indexed by lines cleared; see attackFor
+export interface AttackTable {
+  readonly name: string;
+  lines: number[];      // plain clears, 0-4 lines
+  tspin: number[];      // full T-spins, 0-3 lines
+  tspinMini: number[];  // T-spin minis, 0-2 lines
+  combo: number[];      // bonus by combo count; the last entry repeats
+  backToBack: number;   // bonus for a clear that continues a B2B chain
+  perfectClear: number; // bonus when the board ends up empty
+}
+
+// ms: timers advance by step()'s dtMs as floats; frames: every step() is one
+// frame, timers count whole frames and gravity is fixed point, so results are
+// bit-identical on any platform.
+export type TimingMode = "ms" | "frames";
+
+// disabled: no hold; standard: once per piece; infinite: practice, no limit
+export type HoldMode = "disabled" | "standard" | "infinite";
+
+export interface GameParams extends BoardRules, Handling {
+  timing: TimingMode; // durations below stay in ms either way
   gravityCellsPerSec(level: number): number;
   lockDelayMs: number;
-  dasMs: number;   // Delayed Auto Shift
-  arrMs: number;   // Auto Repeat Rate (ms per cell; 0 == instant)
-  softDropBonus: number; // extra cells/sec added while soft dropping
-  lineClearScore: (lines: number, level: number) => number;
+  lockReset: LockReset;
+  maxLockResets: number; // "extended" only
+  lineClearDelayMs: number; // full rows stay on the board this long before collapsing
+  areMs: number;            // entry delay between a lock and the next spawn
+  softDropBonus: number; // soft drop is at least this many cells/sec faster than gravity
+  holdMode: HoldMode;
+  rotate180: boolean;       // the rot180 input works
+  initialRotation: boolean; // IRS: a rotation held as a piece spawns turns it right away
+  initialHold: boolean;     // IHS: hold held as a piece spawns swaps it out right away
+  previewCount: number; // next pieces shown, 0-6
+  pieceSet: PieceSet;
+  randomizer: Randomizer;
+  softDropPoints: number; // per cell moved by soft drop
+  hardDropPoints: number; // per cell moved by hard drop
+  lineClearScore: (clear: ClearInfo, level: number) => number; // called on every lock
   levelUp: (totalCleared: number) => number; // derive level from total lines
+  garbageDelayMs: number;  // incoming garbage waits this long before it can rise
+  garbageCap: number;      // most garbage rows that rise after a single lock
+  garbagePattern: GarbagePattern;
+  attackTable: AttackTable; // lines sent by a clear, before cancelling
+  mode: GameMode;
 }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createGame, spawnPosition, step } from "../src/logic";
+import { findPath, findPlacements, type BotMove } from "../src/bot";
+import { parseGrid } from "../src/grid";
+import { DEFAULT_PARAMS } from "../src/params";
+import { SHAPE_KEYS, type ShapeKey } from "../src/shapes";
+import type { GameParams, Inputs, Piece } from "../src/types";
+
+// No gravity, and a soft drop of exactly one row per 1 ms step, so a path plays out move by move.
+const params: GameParams = { ...DEFAULT_PARAMS, gravityCellsPerSec: () => 0, softDropBonus: 1000 };
+
+function setup(grid: string[], type: ShapeKey) {
+  const state = createGame(10, 20, 1, params);
+  const rows = parseGrid(grid.join("\n"));
+  state.board.splice(state.boardH - rows.length, rows.length, ...rows);
+  state.active = spawnPosition(state, type, params);
+  return state;
+}
+
+const STEPS: Record<BotMove, [Inputs, number]> = {
+  left: [{ left: true }, 0],
+  right: [{ right: true }, 0],
+  cw: [{ rotCW: true }, 0],
+  ccw: [{ rotCCW: true }, 0],
+  "180": [{ rot180: true }, 0],
+  down: [{ softDrop: true }, 1],
+};
+
+// Plays `path` then a hard drop in the engine; returns where the piece locked.
+function playPath(grid: string[], type: ShapeKey, path: BotMove[]): Piece | null {
+  const state = setup(grid, type);
+  for (const move of path) {
+    const [inputs, dt] = STEPS[move];
+    step(state, inputs, dt, params);
+    step(state, {}, 0, params); // release, so the next tap is a fresh press
+  }
+  const lock = step(state, { hardDrop: true }, 0, params).find((e) => e.type === "lock");
+  return lock?.type === "lock" ? lock.piece : null;
+}
+
+const BOARDS: Record<string, string[]> = {
+  empty: [],
+  "T-spin double slot": ["...X......", "XXX...XXXX", "XXXX.XXXXX"],
+  overhang: ["XXXXX.....", "X.........", "X.......XX", "XXX...XXXX"],
+};
+
+describe("bot", () => {
+  describe.each(Object.entries(BOARDS))("on the %s board", (_, grid) => {
+    it.each(SHAPE_KEYS)("reaches every %s placement along the path findPath gives", (type) => {
+      const state = setup(grid, type);
+      const placements = findPlacements(state, params, state.active!);
+      expect(placements.length).toBeGreaterThan(0);
+      for (const p of placements) {
+        const path = findPath(state, params, state.active!, p.piece, p.tspin !== "none");
+        expect(path).toEqual(p.path);
+        expect(playPath(grid, type, path!)).toEqual(p.piece);
+      }
+    });
+  });
+
+  it("finds the T-spin double and a path that ends on the spin", () => {
+    const grid = BOARDS["T-spin double slot"];
+    const state = setup(grid, "T");
+    const tsd = findPlacements(state, params, state.active!).find((p) => p.tspin === "full" && p.lines === 2);
+    expect(tsd?.path.at(-1)).toMatch(/cw|ccw/);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createGame, spawnPosition, step } from "../src/logic";
+import { FinesseTracker, finessePath, type FinesseResult } from "../src/finesse";
+import { DEFAULT_PARAMS } from "../src/params";
+import type { ShapeKey } from "../src/shapes";
+import type { Inputs, Piece } from "../src/types";
+
+const DT = 1000 / 60;
+
+describe("finessePath", () => {
+  const state = createGame(10, 20, 1);
+  const at = (type: ShapeKey, rot: Piece["rot"], x: number): Piece => ({ type, rot, x, y: 10 });
+
+  it.each([
+    ["T flat where it spawns", 0, at("T", 0, 3)],
+    ["T flat against the left wall", 1, at("T", 0, 0)],
+    ["T upside down", 2, at("T", 2, 3)],
+    ["T pointing right against the left wall", 2, at("T", 1, -1)],
+    ["I flat against the right wall", 1, at("I", 0, 6)],
+    ["I upright in the left column", 2, at("I", 1, -2)],
+    ["I upright in the right column", 2, at("I", 1, 7)],
+    ["S upright where it spawns", 1, at("S", 1, 3)],
+    ["O against the left wall", 1, at("O", 0, 0)],
+  ] as const)("%s: %i inputs", (_, n, target) => {
+    expect(finessePath(state, target)).toHaveLength(n);
+  });
+
+  it("uses a 180 when the rules have one", () => {
+    expect(finessePath(state, at("T", 2, 3), { ...DEFAULT_PARAMS, rotate180: true })).toEqual(["180"]);
+  });
+});
+
+// Plays one T from spawn: `inputs` one tick each, then a hard drop; returns the judgement.
+function placeT(inputs: Inputs[], tracker = new FinesseTracker()): FinesseResult | null {
+  const state = createGame(10, 20, 1);
+  state.active = spawnPosition(state, "T");
+  let judged: FinesseResult | null = null;
+  for (const i of [...inputs, { hardDrop: true }]) {
+    judged = tracker.record(state, i, step(state, i, DT), DEFAULT_PARAMS) ?? judged;
+  }
+  return judged;
+}
+
+const hold = (key: keyof Inputs, ticks: number): Inputs[] => Array(ticks).fill({ [key]: true });
+
+describe("FinesseTracker", () => {
+  it("counts a DAS to the wall as one press", () => {
+    expect(placeT(hold("left", 20))).toMatchObject({ piece: { x: 0, rot: 0 }, inputs: 1, faults: 0 });
+  });
+
+  it("counts every tap beyond the optimum as a fault", () => {
+    const taps = [{ left: true }, {}, { left: true }, {}, { left: true }, {}];
+    expect(placeT(taps)).toMatchObject({ piece: { x: 0 }, inputs: 3, faults: 2 });
+  });
+
+  it("counts a rotation there and back", () => {
+    expect(placeT([{ rotCW: true }, {}, { rotCCW: true }])).toMatchObject({ inputs: 2, optimal: [], faults: 2 });
+  });
+
+  it("doesn't judge a soft-dropped piece, and keeps totals over the rest", () => {
+    const tracker = new FinesseTracker();
+    expect(placeT([{ softDrop: true }], tracker)).toBeNull();
+    placeT(hold("left", 20), tracker);
+    placeT([{ right: true }, {}, { right: true }, {}, { right: true }], tracker); // three taps where DAS and a tap back would do
+    expect(tracker.totals).toEqual({ pieces: 2, faults: 1, perfect: 1 });
+  });
+});
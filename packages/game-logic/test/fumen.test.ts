@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { decodeFumen, encodeFumen, fumenQuiz, fumenQuizComment, FUMEN_COLS, FUMEN_ROWS, type FumenPage } from "../src/fumen";
+import { formatGrid } from "../src/grid";
+import { makeBoard, shapeCells } from "../src/board";
+import { SHAPE_KEYS, type Cell, type TetrominoKey } from "../src/shapes";
+import type { Piece } from "../src/types";
+
+// Made with tetris-fumen 1.1.3; the boards are what its decoder shows.
+const TSD = "v115@RhilDeBtAeglRpzhAeBtJe1LYDAUNSBA";
+const EMPTY_x3 = "v115@vhCAgHAAAAAA";
+const QUIZ = "v115@bhF8BeB8JeZHYWAFLDmClcJSAVDEHBEooRBJoAVBPN?BAAvhBTpBPrf";
+
+const bottom = (page: FumenPage, rows: number) => formatGrid(page.board.slice(-rows));
+
+describe("decodeFumen", () => {
+  it("reads a field, a placement and a comment", () => {
+    const [page, ...rest] = decodeFumen(TSD);
+    expect(rest).toHaveLength(0);
+    expect(page.board).toHaveLength(FUMEN_ROWS);
+    expect(bottom(page, 2)).toBe("LLL....ZZ.\nLOOIIII.ZZ");
+    expect(page.piece).toEqual({ type: "T", rot: 0, x: 4, y: 20 });
+    expect(page.comment).toBe("TSD");
+    expect(page.lock).toBe(true);
+  });
+
+  it("expands repeated empty pages", () => {
+    const pages = decodeFumen(EMPTY_x3);
+    expect(pages).toHaveLength(3);
+    for (const page of pages) {
+      expect(page.piece).toBeNull();
+      expect(page.board.flat().every((c) => c === 0)).toBe(true);
+    }
+  });
+
+  it("locks each page's piece into the next page's field", () => {
+    const pages = decodeFumen(QUIZ);
+    expect(pages.map((p) => p.piece)).toEqual([
+      { type: "I", rot: 3, x: 5, y: 19 },
+      { type: "O", rot: 0, x: 0, y: 21 },
+      { type: "S", rot: 1, x: 2, y: 20 },
+    ]);
+    expect(bottom(pages[0], 1)).toBe("XXXXXX..XX");
+    expect(bottom(pages[2], 4)).toBe("......I...\n......I...\nOO....I...\nOOXXXXI.XX");
+    expect(pages[2].lock).toBe(false);
+    expect(fumenQuiz(pages[0].comment)).toEqual({ hold: null, queue: ["I", "O", "S"] });
+  });
+
+  it("finds the data inside a link", () => {
+    expect(decodeFumen(`https://fumen.zui.jp/?${TSD}#english`)).toEqual(decodeFumen(TSD));
+  });
+});
+
+// Every piece and rotation placed by tetris-fumen at x 4, y 10 (its anchor,
+// y up), with the cells it covers in our coordinates.
+const PLACEMENTS: [TetrominoKey, number, string, Cell[]][] = [
+  ["I", 0, "v115@vhAReI", [[3, 12], [4, 12], [5, 12], [6, 12]]],
+  ["I", 1, "v115@vhAJeI", [[4, 14], [4, 13], [4, 12], [4, 11]]],
+  ["I", 2, "v115@vhAhdI", [[2, 12], [3, 12], [4, 12], [5, 12]]],
+  ["I", 3, "v115@vhAZZI", [[4, 13], [4, 12], [4, 11], [4, 10]]],
+  ["O", 0, "v115@vhATZI", [[4, 12], [5, 12], [4, 11], [5, 11]]],
+  ["O", 1, "v115@vhALeI", [[4, 13], [5, 13], [4, 12], [5, 12]]],
+  ["O", 2, "v115@vhAjdI", [[3, 13], [4, 13], [3, 12], [4, 12]]],
+  ["O", 3, "v115@vhA7YI", [[3, 12], [4, 12], [3, 11], [4, 11]]],
+  ["T", 0, "v115@vhAVeI", [[3, 12], [4, 12], [5, 12], [4, 11]]],
+  ["T", 1, "v115@vhANeI", [[4, 13], [4, 12], [5, 12], [4, 11]]],
+  ["T", 2, "v115@vhAFeI", [[4, 13], [3, 12], [4, 12], [5, 12]]],
+  ["T", 3, "v115@vhAdeI", [[4, 13], [3, 12], [4, 12], [4, 11]]],
+  ["L", 0, "v115@vhASeI", [[3, 12], [4, 12], [5, 12], [5, 11]]],
+  ["L", 1, "v115@vhAKeI", [[4, 13], [5, 13], [4, 12], [4, 11]]],
+  ["L", 2, "v115@vhACeI", [[3, 13], [3, 12], [4, 12], [5, 12]]],
+  ["L", 3, "v115@vhAaeI", [[4, 13], [4, 12], [3, 11], [4, 11]]],
+  ["J", 0, "v115@vhAWeI", [[3, 12], [4, 12], [5, 12], [3, 11]]],
+  ["J", 1, "v115@vhAOeI", [[4, 13], [4, 12], [4, 11], [5, 11]]],
+  ["J", 2, "v115@vhAGeI", [[5, 13], [3, 12], [4, 12], [5, 12]]],
+  ["J", 3, "v115@vhAeeI", [[3, 13], [4, 13], [4, 12], [4, 11]]],
+  ["S", 0, "v115@vhAXZI", [[3, 12], [4, 12], [4, 11], [5, 11]]],
+  ["S", 1, "v115@vhAveI", [[5, 13], [4, 12], [5, 12], [4, 11]]],
+  ["S", 2, "v115@vhAHeI", [[3, 13], [4, 13], [4, 12], [5, 12]]],
+  ["S", 3, "v115@vhAfeI", [[4, 13], [3, 12], [4, 12], [3, 11]]],
+  ["Z", 0, "v115@vhAUZI", [[4, 12], [5, 12], [3, 11], [4, 11]]],
+  ["Z", 1, "v115@vhAMeI", [[4, 13], [4, 12], [5, 12], [5, 11]]],
+  ["Z", 2, "v115@vhAEeI", [[4, 13], [5, 13], [3, 12], [4, 12]]],
+  ["Z", 3, "v115@vhA8dI", [[3, 13], [3, 12], [4, 12], [4, 11]]],
+];
+
+describe("placements", () => {
+  it.each(PLACEMENTS)("%s rot %i", (type, rot, text, cells) => {
+    const [page] = decodeFumen(text);
+    const p = page.piece as Piece;
+    expect(p).toMatchObject({ type, rot });
+    const covered = shapeCells(p.type, p.rot).map(([cx, cy]) => [p.x + cx, p.y + cy]);
+    expect(covered.sort()).toEqual(cells.slice().sort());
+    expect(encodeFumen([page])).toBe(text);
+  });
+});
+
+describe("encodeFumen", () => {
+  it("writes known strings back byte for byte", () => {
+    for (const text of [TSD, EMPTY_x3, QUIZ]) expect(encodeFumen(decodeFumen(text))).toBe(text);
+  });
+
+  it("round-trips every in-bounds tetromino placement", () => {
+    const board = makeBoard(FUMEN_COLS, FUMEN_ROWS);
+    for (const type of SHAPE_KEYS) {
+      for (let rot = 0; rot < 4; rot++) {
+        for (let x = -3; x < FUMEN_COLS; x++) {
+          for (let y = -3; y < FUMEN_ROWS; y++) {
+            const piece: Piece = { type, rot, x, y };
+            const inside = shapeCells(type, rot).every(
+              ([cx, cy]) => x + cx >= 0 && x + cx < FUMEN_COLS && y + cy >= 0 && y + cy < FUMEN_ROWS
+            );
+            if (!inside) continue;
+            const [page] = decodeFumen(encodeFumen([{ board, piece, comment: "", lock: true }]));
+            expect(page.piece).toEqual(piece);
+          }
+        }
+      }
+    }
+  });
+
+  it("keeps quiz comments", () => {
+    const comment = fumenQuizComment("T", ["I", "O", "S"]);
+    const [page] = decodeFumen(encodeFumen([{ board: makeBoard(10, 4), piece: null, comment, lock: true }]));
+    expect(fumenQuiz(page.comment)).toEqual({ hold: "T", queue: ["I", "O", "S"] });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { pendingGarbage, receiveGarbage } from "../src/garbage";
+import { parseGrid } from "../src/grid";
+import { DEFAULT_PARAMS } from "../src/params";
+import { CELL, type GameEvent, type GameParams } from "../src/types";
+
+function setup(overrides: Partial<GameParams> = {}, grid: string[] = []) {
+  const params: GameParams = { ...DEFAULT_PARAMS, ...overrides };
+  const state = createGame(10, 20, 1, params);
+  const rows = parseGrid(grid.join("\n"));
+  state.board.splice(state.boardH - rows.length, rows.length, ...rows);
+  return { state, params };
+}
+
+// Hard drops the active piece; returns the lines of the "attack" and "garbage" events.
+function drop({ state, params }: ReturnType<typeof setup>) {
+  const events = step(state, { hardDrop: true }, 0, params);
+  const lines = (type: GameEvent["type"]) =>
+    events.reduce((n, e) => n + (e.type === type && "lines" in e ? e.lines : 0), 0);
+  return { attack: lines("attack"), garbage: lines("garbage") };
+}
+
+// Four rows with a well on the right and a stray block above, so an upright I
+// in the well is a tetris (4 lines) but not a perfect clear.
+const TETRIS_WELL = ["X.........", "XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX."];
+
+describe("garbage", () => {
+  it("cancels incoming garbage oldest first and sends what is left", () => {
+    const game = setup({}, TETRIS_WELL);
+    receiveGarbage(game.state, 3);
+    receiveGarbage(game.state, 2);
+    game.state.active = { type: "I", rot: 1, x: 7, y: 0 };
+    expect(drop(game)).toEqual({ attack: 0, garbage: 0 });
+    expect(game.state.garbage.map((b) => b.lines)).toEqual([1]);
+
+    const again = setup({}, TETRIS_WELL);
+    receiveGarbage(again.state, 1);
+    again.state.active = { type: "I", rot: 1, x: 7, y: 0 };
+    expect(drop(again)).toEqual({ attack: 3, garbage: 0 });
+    expect(pendingGarbage(again.state)).toBe(0);
+  });
+
+  it("waits out garbageDelayMs before it can rise, and only after a lock that clears nothing", () => {
+    const game = setup({ garbageDelayMs: 500 });
+    receiveGarbage(game.state, 2);
+    step(game.state, {}, 499, game.params);
+    expect(drop(game).garbage).toBe(0);
+    step(game.state, {}, 1, game.params);
+    expect(drop(game).garbage).toBe(2);
+    expect(pendingGarbage(game.state)).toBe(0);
+  });
+
+  it("raises at most garbageCap rows per lock, keeping a clean attack's hole", () => {
+    const game = setup({ garbageDelayMs: 0, garbageCap: 8, garbagePattern: "clean" });
+    receiveGarbage(game.state, 12);
+    expect(drop(game).garbage).toBe(8);
+    expect(pendingGarbage(game.state)).toBe(4);
+    expect(drop(game).garbage).toBe(4);
+
+    const holes = game.state.board
+      .filter((row) => row.includes(CELL.GARBAGE))
+      .map((row) => row.indexOf(CELL.EMPTY));
+    expect(holes).toHaveLength(12);
+    expect(new Set(holes).size).toBe(1);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { formatGrid, parseGrid } from "../src/grid";
+
+describe("grid", () => {
+  const text = ["..........", "T.........", "TTX.....##", "TIIIIOOSSZ"].join("\n");
+
+  it("round-trips through parseGrid and formatGrid", () => {
+    expect(formatGrid(parseGrid(text))).toBe(text);
+  });
+
+  it("ignores blank lines and indentation, and reads _ as empty", () => {
+    expect(formatGrid(parseGrid(`\n  __________\n  TTX.....##\n`))).toBe("..........\nTTX.....##");
+  });
+
+  it("rejects ragged rows and unknown cells", () => {
+    expect(() => parseGrid("...\n..")).toThrow(/row 1/);
+    expect(() => parseGrid("..?")).toThrow(/Unknown grid cell/);
+  });
+});
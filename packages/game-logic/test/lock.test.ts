@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { parseGrid } from "../src/grid";
+import { DEFAULT_PARAMS } from "../src/params";
+import type { GameParams, Inputs, LockReset, Piece } from "../src/types";
+
+const DT = 100; // ms per tick; lock delay is 500
+
+function setup(lockReset: LockReset, grid: string[], active: Piece) {
+  const params: GameParams = { ...DEFAULT_PARAMS, lockReset, lockDelayMs: 500, softDropFactor: Infinity };
+  const state = createGame(10, 20, 1, params);
+  const rows = parseGrid(grid.join("\n"));
+  state.board.splice(state.boardH - rows.length, rows.length, ...rows);
+  state.active = active;
+  state.lowestY = active.y;
+  return { state, params };
+}
+
+// Ticks until the piece locks, feeding inputs(tick) each tick; Infinity if it never does within `max`.
+function ticksToLock({ state, params }: ReturnType<typeof setup>, inputs: (tick: number) => Inputs, max = 100) {
+  for (let t = 1; t <= max; t++) {
+    if (step(state, inputs(t), DT, params).some((e) => e.type === "lock")) return t;
+  }
+  return Infinity;
+}
+
+const FLOOR = [".........."];
+const ON_FLOOR: Piece = { type: "T", rot: 0, x: 4, y: 19 };
+const wiggle = (t: number): Inputs => (t % 2 ? { left: true } : { right: true });
+
+describe("lock reset", () => {
+  it("extended: moves on the ground reset the delay 15 times, then it locks", () => {
+    const game = setup("extended", FLOOR, ON_FLOOR);
+    // the first move starts with the timer at 0, so it has nothing to reset
+    expect(ticksToLock(game, wiggle)).toBe(16);
+  });
+
+  it("extended: reaching a new lowest row refills the resets", () => {
+    // T resting on a three-wide ledge, two rows above the floor
+    const game = setup("extended", ["XXX.......", "..........", ".........."], { type: "T", rot: 0, x: 0, y: 16 });
+    const run = (...inputs: Inputs[]) => inputs.forEach((i) => step(game.state, i, DT, game.params));
+    run({}, { right: true }, { left: true }, { right: true });
+    expect(game.state.lockResets).toBe(3);
+    run({}, { right: true }, {}, { right: true }, { softDrop: true }); // off the ledge and down
+    expect(game.state.active?.y).toBe(19);
+    expect(game.state.lockResets).toBe(0);
+  });
+
+  it("infinite: moving keeps the piece alive forever", () => {
+    expect(ticksToLock(setup("infinite", FLOOR, ON_FLOOR), wiggle)).toBe(Infinity);
+  });
+
+  it.each(["step", "classic"] as const)("%s: moving on the ground doesn't reset the delay", (policy) => {
+    expect(ticksToLock(setup(policy, FLOOR, ON_FLOOR), wiggle)).toBe(5);
+  });
+
+  it("step resets on falling a row, classic doesn't", () => {
+    // 300 ms on a ledge, a step off it and a drop to the floor, then wait
+    const ledge = ["X.........", "..........", ".........."];
+    const at = { type: "T", rot: 0, x: 0, y: 16 } as const;
+    const inputs = (t: number): Inputs => (t === 4 ? { right: true } : t === 5 ? { softDrop: true } : {});
+    expect(ticksToLock(setup("step", ledge, at), inputs)).toBe(9);
+    expect(ticksToLock(setup("classic", ledge, at), inputs)).toBe(6);
+  });
+});
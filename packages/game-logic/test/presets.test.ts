@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { ghostPiece } from "../src/board";
+import { parseGrid } from "../src/grid";
+import { NES_PARAMS, TGM_PARAMS } from "../src/presets";
+import { NES_FRAMES_PER_ROW } from "../src/gravity";
+
+describe("20G", () => {
+  it("puts a new piece on the floor the frame it spawns", () => {
+    const state = createGame(10, 20, 1, TGM_PARAMS);
+    expect(state.active).toEqual(ghostPiece(state));
+
+    // the next piece, after the lock and ARE
+    let spawned = false;
+    for (let f = 0; f < 60 && !spawned; f++) {
+      spawned = step(state, f ? {} : { hardDrop: true }, 1000 / 60, TGM_PARAMS).some((e) => e.type === "spawn");
+    }
+    expect(spawned).toBe(true);
+    expect(state.active).toEqual(ghostPiece(state));
+  });
+
+  it("drops into a well as soon as a shift puts it over one", () => {
+    const state = createGame(10, 20, 1, TGM_PARAMS);
+    const rows = parseGrid(["XXXXXXXX.X", "XXXXXXXX.X", "XXXXXXXX.X", "XXXXXXXX.X"].join("\n"));
+    state.board.splice(state.boardH - rows.length, rows.length, ...rows);
+    state.active = { type: "I", rot: 1, x: 0, y: 0 }; // upright, in column 2
+    for (let f = 0; f < 20; f++) step(state, f % 2 ? {} : { right: true }, 1000 / 60, TGM_PARAMS);
+    expect(state.active).toMatchObject({ x: 6, y: state.boardH - 4 });
+  });
+});
+
+describe("NES gravity", () => {
+  it.each([0, 8, 18, 19, 29])("falls one row every NES frames-per-row count at level %i", (level) => {
+    const state = createGame(10, 20, 1, NES_PARAMS);
+    state.level = level;
+    const frames = NES_FRAMES_PER_ROW[level] ?? 1;
+    const start = state.active!.y;
+    const rows: number[] = [];
+    for (let f = 1; f <= frames * 3; f++) {
+      step(state, {}, 1000 / 60, NES_PARAMS);
+      if (state.active!.y !== start + rows.length) rows.push(f);
+    }
+    expect(rows).toEqual([frames, frames * 2, frames * 3]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { judgePuzzle, parsePuzzleGoal, puzzleFromFumen, puzzleParams, puzzleToFumen, startPuzzle } from "../src/puzzle";
+import { parseGrid } from "../src/grid";
+import { step } from "../src/logic";
+import type { Puzzle } from "../src/puzzle";
+
+describe("parsePuzzleGoal", () => {
+  it.each([
+    ["PC", { type: "perfectClear" }],
+    ["perfect clear in 4", { type: "perfectClear" }],
+    ["TSD", { type: "tspin", lines: 2 }],
+    ["t-spin double", { type: "tspin", lines: 2 }],
+    ["T-Spin Triple opener", { type: "tspin", lines: 3 }],
+    ["4 lines", { type: "lines", lines: 4 }],
+    ["clear 2", { type: "lines", lines: 2 }],
+  ])("%s", (text, goal) => {
+    expect(parsePuzzleGoal(text)).toEqual(goal);
+  });
+
+  it("returns null without a goal", () => {
+    expect(parsePuzzleGoal("nice stack")).toBeNull();
+  });
+});
+
+describe("puzzles", () => {
+  const puzzle: Puzzle = {
+    board: parseGrid(["XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX."].join("\n")),
+    queue: ["I"],
+    hold: null,
+    goal: { type: "perfectClear" },
+  };
+
+  it("round-trips through fumen with the goal in the comment", () => {
+    const back = puzzleFromFumen(puzzleToFumen(puzzle), puzzle.goal);
+    expect(back.queue).toEqual(["I"]);
+    expect(back.hold).toBeNull();
+    expect(back.board.slice(-4)).toEqual(puzzle.board);
+  });
+
+  it("is solved by dropping the I into the well", () => {
+    const params = puzzleParams(puzzle);
+    const state = startPuzzle(puzzle, params);
+    const inputs = [{ rotCW: true }, ...Array(8).fill({ right: true }).flatMap((i) => [i, {}]), { hardDrop: true }];
+    let status = "playing";
+    for (const i of inputs) status = judgePuzzle(state, puzzle, step(state, i, 16, params), params);
+    expect(status).toBe("solved");
+  });
+
+  it("tops out when the board covers the spawn, hidden row included", () => {
+    const full: Puzzle = { ...puzzle, board: parseGrid(Array(21).fill("XXXXXXXXX.").join("\n")) };
+    const state = startPuzzle(full, puzzleParams(full));
+    expect(state.result?.end).toBe("topOut");
+  });
+
+  it("fails once the queue runs out", () => {
+    const params = puzzleParams(puzzle);
+    const state = startPuzzle(puzzle, params);
+    expect(judgePuzzle(state, puzzle, step(state, { hardDrop: true }, 16, params), params)).toBe("failed");
+    expect(state.result?.end).toBe("outOfPieces");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createGame, spawnNext } from "../src/logic";
+import { DEFAULT_PARAMS } from "../src/params";
+import { BAG_7, RANDOMIZERS } from "../src/randomizer";
+import { SHAPE_KEYS, type ShapeKey } from "../src/shapes";
+import type { Randomizer } from "../src/types";
+
+// The first n pieces a game with this seed deals.
+function queue(seed: number, randomizer: Randomizer, n = 28): ShapeKey[] {
+  const params = { ...DEFAULT_PARAMS, randomizer };
+  const state = createGame(10, 20, seed, params);
+  const pieces: ShapeKey[] = [];
+  while (pieces.length < n) {
+    pieces.push(state.active!.type);
+    spawnNext(state, params);
+  }
+  return pieces;
+}
+
+describe("randomizers", () => {
+  it.each(Object.values(RANDOMIZERS).map((r) => [r.name, r] as const))("%s deals the same queue for the same seed", (_, r) => {
+    expect(queue(42, r)).toEqual(queue(42, r));
+    expect(queue(42, r)).not.toEqual(queue(43, r));
+  });
+
+  it("keeps its whole state in the game, so a copy carries on identically", () => {
+    const params = { ...DEFAULT_PARAMS, randomizer: BAG_7 };
+    const state = createGame(10, 20, 7, params);
+    for (let i = 0; i < 10; i++) spawnNext(state, params);
+    const rand = structuredClone(state.rand);
+    const ahead = [...state.next];
+    while (ahead.length < 20) ahead.push(BAG_7.next(rand, params.pieceSet)!);
+    const dealt: ShapeKey[] = [];
+    while (dealt.length < 20) {
+      spawnNext(state, params);
+      dealt.push(state.active!.type);
+    }
+    expect(dealt).toEqual(ahead);
+  });
+
+  it("deals every tetromino once per 7-bag", () => {
+    const pieces = queue(5, BAG_7, 70);
+    for (let i = 0; i < pieces.length; i += 7) {
+      expect(pieces.slice(i, i + 7).sort()).toEqual([...SHAPE_KEYS].sort());
+    }
+  });
+});
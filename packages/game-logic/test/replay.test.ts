@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { boardRules, handlingOf } from "../src/params";
+import { GUIDELINE_PARAMS } from "../src/presets";
+import {
+  decodeInputs, encodeInputs, parseReplay, replayParams, replayTicks, serializeReplay,
+  ReplayPlayer, ReplayRecorder, type ReplaySetup,
+} from "../src/replay";
+import { hashState } from "../src/snapshot";
+import type { Inputs } from "../src/types";
+
+const SETUP: ReplaySetup = {
+  seed: 99,
+  boardW: 10,
+  boardH: 20,
+  rules: boardRules(GUIDELINE_PARAMS),
+  handling: handlingOf(GUIDELINE_PARAMS),
+  preset: "guideline",
+  mode: "marathon",
+  pieceSet: "tetromino",
+  timing: "ms",
+  dtMs: 1000 / 60,
+};
+
+// A scripted player: shifts, turns and drops on a fixed rhythm.
+function inputsAt(tick: number): Inputs {
+  const phase = tick % 40;
+  if (phase < 8) return tick % 80 < 40 ? { left: true } : { right: true };
+  if (phase === 10) return { rotCW: true };
+  if (phase === 20 && tick % 120 < 40) return { hold: true };
+  if (phase === 30) return { hardDrop: true };
+  return {};
+}
+
+// Plays `ticks` ticks of the script, recording them.
+function record(ticks = 500) {
+  const params = replayParams(SETUP);
+  const state = createGame(SETUP.boardW, SETUP.boardH, SETUP.seed, params);
+  const recorder = new ReplayRecorder(SETUP);
+  for (let t = 0; t < ticks && !state.gameOver; t++) {
+    const inputs = inputsAt(t);
+    recorder.record(inputs);
+    step(state, inputs, SETUP.dtMs, params);
+  }
+  return { state, replay: recorder.finish(state) };
+}
+
+describe("replays", () => {
+  it("encodes every input bit and back", () => {
+    const inputs: Inputs = { left: true, rotCCW: true, hardDrop: true, heldHold: true };
+    expect(decodeInputs(encodeInputs(inputs))).toEqual(inputs);
+  });
+
+  it("plays back to the recorded state", () => {
+    const { state, replay } = record();
+    expect(state.board.flat().filter(Boolean).length).toBeGreaterThan(30); // a dozen pieces down
+    expect(replayTicks(replay)).toBe(500);
+
+    const player = new ReplayPlayer(replay);
+    expect(player.verify()).toBe(true);
+    expect(hashState(player.state)).toBe(hashState(state));
+    expect(player.state.board).toEqual(state.board);
+  });
+
+  it("survives serializing, instant soft drop included", () => {
+    const { replay } = record();
+    const text = serializeReplay({ ...replay, handling: { ...replay.handling, softDropFactor: Infinity } });
+    const back = parseReplay(text);
+    expect(back.handling.softDropFactor).toBe(Infinity);
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    expect(new ReplayPlayer(parseReplay(serializeReplay(replay))).verify()).toBe(true);
+  });
+
+  it("fails verification when an input is changed", () => {
+    const { replay } = record();
+    const runs = replay.runs.map(([m, n]): [number, number] => [m, n]);
+    const i = runs.findIndex(([m]) => m === encodeInputs({ hardDrop: true }));
+    runs[i] = [0, runs[i][1]];
+    expect(new ReplayPlayer({ ...replay, runs }).verify()).toBe(false);
+  });
+
+  it("rejects other versions and unknown presets", () => {
+    const { replay } = record(10);
+    expect(() => parseReplay(serializeReplay({ ...replay, version: 0 }))).toThrow(/version/);
+    expect(() => parseReplay(JSON.stringify({ ...replay, preset: "tetris99" }))).toThrow(/Malformed/);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { receiveGarbage } from "../src/garbage";
+import { GUIDELINE_PARAMS } from "../src/presets";
+import {
+  cloneState, deserializeState, hashState, serializeState, stateFromBase64, stateToBase64,
+} from "../src/snapshot";
+import type { GameState, Inputs } from "../src/types";
+
+const params = GUIDELINE_PARAMS;
+const DT = 1000 / 60;
+
+function inputsAt(tick: number): Inputs {
+  if (tick % 30 < 5) return tick % 60 < 30 ? { left: true } : { right: true };
+  if (tick % 30 === 10) return { rotCW: true };
+  if (tick % 90 === 15) return { hold: true };
+  if (tick % 30 === 20) return { hardDrop: true };
+  return {};
+}
+
+// A game some way in: a stack, a held piece, garbage on its way and timers mid-count.
+function midGame(ticks = 200): GameState {
+  const state = createGame(10, 20, 7, params);
+  for (let t = 0; t < ticks; t++) {
+    if (t === ticks - 20) receiveGarbage(state, 3);
+    step(state, inputsAt(t), DT, params);
+  }
+  return state;
+}
+
+// Steps both games through the same ticks; returns their hashes after each.
+function runSideBySide(a: GameState, b: GameState, from: number, ticks = 300) {
+  const hashes: Array<[number, number]> = [];
+  for (let t = from; t < from + ticks; t++) {
+    step(a, inputsAt(t), DT, params);
+    step(b, inputsAt(t), DT, params);
+    hashes.push([hashState(a), hashState(b)]);
+  }
+  return hashes;
+}
+
+describe("snapshots", () => {
+  it("round-trips a game in progress, except the last step's events", () => {
+    const state = midGame();
+    expect(state.hold).not.toBeNull();
+    expect(state.garbage).not.toEqual([]);
+    expect(deserializeState(serializeState(state))).toEqual({ ...state, events: [] });
+    expect(stateFromBase64(stateToBase64(state))).toEqual({ ...state, events: [] });
+  });
+
+  it("restores a game that carries on exactly like the original", () => {
+    const state = midGame();
+    const restored = stateFromBase64(stateToBase64(state));
+    for (const [a, b] of runSideBySide(state, restored, 200)) expect(b).toBe(a);
+  });
+
+  it("clones a game that can be stepped without touching the original", () => {
+    const state = midGame();
+    const before = hashState(state);
+    const clone = cloneState(state);
+    for (let t = 200; t < 300; t++) step(clone, inputsAt(t), DT, params);
+    expect(hashState(state)).toBe(before);
+    expect(hashState(clone)).not.toBe(before);
+  });
+
+  it("rejects a snapshot from another version", () => {
+    const bytes = serializeState(midGame(10));
+    bytes[0]++;
+    expect(() => deserializeState(bytes)).toThrow(/version/);
+  });
+});
+
+describe("hashState", () => {
+  it("is the same for the same game played the same way", () => {
+    expect(hashState(midGame())).toBe(hashState(midGame()));
+  });
+
+  it("ignores the last step's events", () => {
+    const state = midGame();
+    const hash = hashState(state);
+    state.events = [{ type: "hold", piece: "T", swapped: null }];
+    expect(hashState(state)).toBe(hash);
+  });
+
+  it("changes with a single cell, a timer or the queue", () => {
+    const state = midGame();
+    const hash = hashState(state);
+    const changed = [
+      (s: GameState) => { s.board[s.boardH - 1][0] = s.board[s.boardH - 1][0] ? 0 : 1; },
+      (s: GameState) => { s.lockTimerMs += 1; },
+      (s: GameState) => { s.next.reverse(); },
+    ].map((change) => {
+      const copy = cloneState(state);
+      change(copy);
+      return hashState(copy);
+    });
+    expect(changed).not.toContain(hash);
+  });
+});
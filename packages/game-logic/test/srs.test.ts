@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { parseGrid } from "../src/grid";
+import { kicksFor } from "../src/srs";
+import type { Inputs, Piece } from "../src/types";
+
+// A 10-wide game with `grid` as the bottom rows and `active` in play.
+function setup(grid: string, active: Piece) {
+  const state = createGame(10, 20, 1);
+  const rows = parseGrid(grid);
+  state.board.splice(state.boardH - rows.length, rows.length, ...rows);
+  state.active = active;
+  return state;
+}
+
+function rotate(state: ReturnType<typeof setup>, inputs: Inputs) {
+  return step(state, inputs, 0).find((e) => e.type === "rotate");
+}
+
+describe("SRS", () => {
+  it("turns JLSTZ about their center without drifting", () => {
+    const state = setup("..........", { type: "T", rot: 0, x: 4, y: 10 });
+    for (let i = 0; i < 4; i++) rotate(state, { rotCW: true });
+    expect(state.active).toEqual({ type: "T", rot: 0, x: 4, y: 10 });
+  });
+
+  it("kicks a T off the left wall with the JLSTZ table", () => {
+    // rot 1 leaves the box's left column empty; rot 2 needs it, so test 1 (+1, 0) is used
+    const state = setup("..........", { type: "T", rot: 1, x: -1, y: 10 });
+    expect(rotate(state, { rotCW: true })).toEqual({ type: "rotate", dir: 1, kick: 1 });
+    expect(state.active).toEqual({ type: "T", rot: 2, x: 0, y: 10 });
+  });
+
+  it("kicks an I off the left wall with the I table", () => {
+    // upright I in column 0; flat in rot 2, tests 0 and 1 (-1, 0) hit the wall, test 2 is (+2, 0)
+    const state = setup("..........", { type: "I", rot: 1, x: -2, y: 10 });
+    expect(rotate(state, { rotCW: true })).toEqual({ type: "rotate", dir: 1, kick: 2 });
+    expect(state.active).toEqual({ type: "I", rot: 2, x: 0, y: 10 });
+  });
+
+  it("never kicks an O", () => {
+    for (const [from, to] of [[0, 1], [1, 2], [2, 3], [3, 0], [0, 3], [1, 0]]) {
+      expect(kicksFor("O", from, to)).toHaveLength(1); // in place only
+    }
+    const state = setup("..........", { type: "O", rot: 0, x: 0, y: 10 });
+    expect(rotate(state, { rotCW: true })).toEqual({ type: "rotate", dir: 1, kick: 0 });
+    expect(state.active).toEqual({ type: "O", rot: 1, x: 0, y: 10 });
+  });
+});
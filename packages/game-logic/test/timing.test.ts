@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { receiveGarbage } from "../src/garbage";
+import { GUIDELINE_PARAMS } from "../src/presets";
+import { hashState } from "../src/snapshot";
+import { duration, timerToMs } from "../src/timing";
+import type { GameParams, GameState, Inputs } from "../src/types";
+
+const params: GameParams = { ...GUIDELINE_PARAMS, timing: "frames" };
+
+function inputsAt(tick: number): Inputs {
+  if (tick % 40 < 12) return tick % 80 < 40 ? { left: true } : { right: true };
+  if (tick % 40 === 15) return { rotCCW: true };
+  if (tick % 40 === 25) return { softDrop: true };
+  if (tick % 120 === 30) return { hold: true };
+  if (tick % 40 === 35) return { hardDrop: true };
+  return {};
+}
+
+// Hashes after every tick of a scripted game stepped with the given dtMs.
+function run(dtMs: (tick: number) => number, ticks = 1200): number[] {
+  const state = createGame(10, 20, 3, params);
+  const hashes: number[] = [];
+  for (let t = 0; t < ticks && !state.gameOver; t++) {
+    if (t % 200 === 100) receiveGarbage(state, 2);
+    step(state, inputsAt(t), dtMs(t), params);
+    hashes.push(hashState(state));
+  }
+  return hashes;
+}
+
+describe("frame timing", () => {
+  it("plays bit-identically whatever dtMs the host steps with", () => {
+    const steady = run(() => 1000 / 60);
+    expect(steady.length).toBeGreaterThan(300);
+    expect(run(() => 16)).toEqual(steady);
+    expect(run((t) => (t % 3 ? 5 : 40))).toEqual(steady); // a jittery host
+  });
+
+  it("keeps every timer a whole number", () => {
+    const state = createGame(10, 20, 3, params);
+    const timers = (s: GameState) => [
+      s.fallAccum, s.lockTimerMs, s.phaseTimerMs, s.elapsedMs, s.dasLeftMs, s.dasRightMs,
+      s.arrLeftMs, s.arrRightMs, s.dasCutTimerMs, ...s.garbage.map((b) => b.timerMs),
+    ];
+    for (let t = 0; t < 600 && !state.gameOver; t++) {
+      if (t === 50) receiveGarbage(state, 2);
+      step(state, inputsAt(t), 1000 / 60, params);
+      for (const v of timers(state)) expect(Number.isInteger(v)).toBe(true);
+    }
+  });
+
+  it("counts durations in whole frames", () => {
+    expect(duration(params, 500)).toBe(30);
+    expect(duration(params, 250)).toBe(15);
+    expect(timerToMs(params, 30)).toBe(500);
+  });
+});
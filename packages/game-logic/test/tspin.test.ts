@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/logic";
+import { parseGrid } from "../src/grid";
+import type { ClearInfo, Inputs, Piece } from "../src/types";
+
+// A 10-wide game with `grid` as the bottom rows and `active` in play.
+function setup(grid: string[], active: Piece) {
+  const state = createGame(10, 20, 1);
+  const rows = parseGrid(grid.join("\n"));
+  state.board.splice(state.boardH - rows.length, rows.length, ...rows);
+  state.active = active;
+  return state;
+}
+
+// Applies `inputs` one tick each, then hard drops; returns the rotations' kicks and the lock's clear.
+function play(state: ReturnType<typeof setup>, ...inputs: Inputs[]) {
+  const kicks: number[] = [];
+  for (const i of inputs) {
+    for (const e of step(state, i, 0)) if (e.type === "rotate") kicks.push(e.kick);
+  }
+  const clear = step(state, { hardDrop: true }, 0).find((e) => e.type === "clear");
+  return { kicks, clear: clear?.type === "clear" ? clear.clear : null };
+}
+
+const TSD_SLOT = ["...X......", "XXX...XXXX", "XXXX.XXXXX"];
+
+describe("T-spins", () => {
+  it("counts a rotation into three corners with both front ones blocked as full", () => {
+    const state = setup(TSD_SLOT, { type: "T", rot: 1, x: 3, y: 18 });
+    const { kicks, clear } = play(state, { rotCW: true });
+    expect(kicks).toEqual([0]);
+    expect(clear).toMatchObject<Partial<ClearInfo>>({ tspin: "full", lines: 2 });
+  });
+
+  it("counts it as a mini when a front corner is open", () => {
+    // ends pointing left with the top-left corner of its box open
+    const state = setup(
+      ["........XX", "........XX", "XXXXXXX.XX", "XXXXXX..XX", "XXXXXXX.XX"],
+      { type: "T", rot: 0, x: 5, y: 16 }
+    );
+    const { kicks, clear } = play(state, { rotCCW: true });
+    expect(kicks).toEqual([1]);
+    expect(clear).toMatchObject<Partial<ClearInfo>>({ tspin: "mini", lines: 1 });
+  });
+
+  it("upgrades a mini to full when the turn needed the last kick test (TST kick)", () => {
+    // ends pointing right with its bottom-right corner open; only kick 4 (-1, down 2) fits
+    const state = setup(
+      ["XXXXX.....", "XXXX......", "XXXX.XXXXX", "XXXX..XXXX", "XXXX..XXXX"],
+      { type: "T", rot: 0, x: 4, y: 16 }
+    );
+    const { kicks, clear } = play(state, { rotCW: true });
+    expect(kicks).toEqual([4]);
+    expect(clear).toMatchObject<Partial<ClearInfo>>({ tspin: "full", lines: 2 });
+  });
+
+  it("is no spin when the T didn't rotate last", () => {
+    const state = setup(TSD_SLOT, { type: "T", rot: 2, x: 3, y: 18 });
+    expect(play(state).clear).toMatchObject<Partial<ClearInfo>>({ tspin: "none", lines: 2 });
+  });
+});
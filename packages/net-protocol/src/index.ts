@@ -11,7 +11,7 @@ export const Op = {
 } as const;
 
 export const InputType = z.enum([
-  "Left","Right","SoftDrop","HardDrop","RotateCW","RotateCCW","Hold","None"
+  "Left","Right","SoftDrop","HardDrop","RotateCW","RotateCCW","Rotate180","Hold","None"
 ]);
 export type InputType = z.infer<typeof InputType>;
 